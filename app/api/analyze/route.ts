@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { AnalysisFormatError, AnalysisResult, parseAnalysisResult } from "@/lib/analysis";
+import { AnalysisErrorBody, AnalysisErrorKind, AnalysisRequestError } from "@/lib/analysis-errors";
+import { BackendConfig, getBackendConfig } from "@/lib/backend-config";
+import { mergeAnalysisResults } from "@/lib/merge";
+import { mockAnalyze } from "@/lib/mock-backend";
+
+export const dynamic = "force-dynamic";
+
+// One multi-shot session: a label photographed in up to this many parts.
+const MAX_FILES = 6;
+
+// Render's proxy answers with these while a sleeping instance spins back up.
+const WAKING_UP_STATUSES = [502, 503, 504];
+
+// The optional OCR hint: an ISO 639 code for the language printed on the label.
+const LANGUAGE_PATTERN = /^[a-z]{2,3}$/;
+
+const errorResponse = (kind: AnalysisErrorKind, message: string, status: number) =>
+  NextResponse.json<AnalysisErrorBody>({ message, kind }, { status });
+
+// The backend analyzes one image per request; multi-shot uploads fan out and are merged afterwards.
+async function analyzeWithBackend(file: Blob, config: BackendConfig, language?: string): Promise<AnalysisResult> {
+  if (config.mode === "mock") {
+    return mockAnalyze(file, config.mockDelayMs);
+  }
+
+  const upstreamForm = new FormData();
+  upstreamForm.append("file", file, file instanceof File ? file.name : "upload.jpg");
+  if (language) upstreamForm.append("language", language);
+
+  let response: Response;
+  try {
+    response = await fetch(config.url, {
+      method: "POST",
+      body: upstreamForm,
+      signal: AbortSignal.timeout(config.timeoutMs),
+      cache: "no-store",
+    });
+  } catch (error) {
+    console.error("Analysis backend unreachable", error);
+    if (error instanceof DOMException && error.name === "TimeoutError") {
+      throw new AnalysisRequestError("timeout", "Analysis backend timed out", 504);
+    }
+    throw new AnalysisRequestError("server", "Analysis backend is unreachable", 502);
+  }
+
+  const data: unknown = await response.json().catch(() => null);
+  if (!response.ok) {
+    const upstreamMessage = (data as { message?: unknown } | null)?.message;
+    const message = typeof upstreamMessage === "string" ? upstreamMessage : `Analysis backend responded with ${response.status}`;
+    if (WAKING_UP_STATUSES.includes(response.status)) throw new AnalysisRequestError("waking-up", message, 503);
+    // The backend looked at the image and refused it.
+    if (response.status < 500) throw new AnalysisRequestError("unsupported-image", message, 422);
+    throw new AnalysisRequestError("server", message, 502);
+  }
+
+  try {
+    return parseAnalysisResult(data);
+  } catch (error) {
+    if (!(error instanceof AnalysisFormatError)) throw error;
+    console.error("Analysis backend returned an invalid result", error);
+    throw new AnalysisRequestError("invalid-response", "Analysis backend returned an unexpected response", 502);
+  }
+}
+
+export async function POST(request: Request) {
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return errorResponse("unsupported-image", "Expected a multipart/form-data upload", 400);
+  }
+
+  const files = formData.getAll("file").filter((entry): entry is File => entry instanceof Blob);
+  if (files.length === 0) {
+    return errorResponse("unsupported-image", "No image was uploaded", 400);
+  }
+  if (files.length > MAX_FILES) {
+    return errorResponse("unsupported-image", `Upload at most ${MAX_FILES} images at once`, 400);
+  }
+  if (files.some((file) => file.type && !file.type.startsWith("image/"))) {
+    return errorResponse("unsupported-image", "Only image uploads can be analyzed", 415);
+  }
+
+  const language = formData.get("language");
+  if (language !== null && (typeof language !== "string" || !LANGUAGE_PATTERN.test(language))) {
+    return errorResponse("unsupported-image", "language must be a two- or three-letter language code", 400);
+  }
+
+  const config = getBackendConfig();
+  try {
+    const results = await Promise.all(files.map((file) => analyzeWithBackend(file, config, language ?? undefined)));
+    return NextResponse.json(mergeAnalysisResults(results));
+  } catch (error) {
+    if (!(error instanceof AnalysisRequestError)) throw error;
+    return errorResponse(error.kind, error.message, error.status ?? 502);
+  }
+}
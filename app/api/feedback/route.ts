@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { AnalysisFormatError } from "@/lib/analysis";
+import { getFeedbackConfig } from "@/lib/backend-config";
+import { listReceivedReports, receiveReport } from "@/lib/mock-feedback";
+import { ReportPayload, parseReportPayload } from "@/lib/reports";
+
+export const dynamic = "force-dynamic";
+
+// Label photos are downscaled before upload; anything bigger is not one of ours.
+const MAX_IMAGE_BYTES = 8 * 1024 * 1024;
+
+const errorResponse = (message: string, status: number) => NextResponse.json({ message }, { status });
+
+async function forwardReport(url: string, timeoutMs: number, report: ReportPayload, image?: Blob) {
+  const upstreamForm = new FormData();
+  upstreamForm.append("report", JSON.stringify(report));
+  if (image) upstreamForm.append("image", image, image instanceof File ? image.name : "label.jpg");
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      body: upstreamForm,
+      signal: AbortSignal.timeout(timeoutMs),
+      cache: "no-store",
+    });
+  } catch (error) {
+    console.error("Feedback endpoint unreachable", error);
+    const timedOut = error instanceof DOMException && error.name === "TimeoutError";
+    return errorResponse(timedOut ? "Feedback endpoint timed out" : "Feedback endpoint is unreachable", timedOut ? 504 : 502);
+  }
+  if (!response.ok) {
+    console.error(`Feedback endpoint responded with ${response.status}`);
+    // A report the endpoint refuses won't get better by sending it again.
+    return errorResponse(`Feedback endpoint responded with ${response.status}`, response.status < 500 ? 422 : 502);
+  }
+  return NextResponse.json({ id: report.id }, { status: 202 });
+}
+
+export async function POST(request: Request) {
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return errorResponse("Expected a multipart/form-data report", 400);
+  }
+
+  let report: ReportPayload;
+  try {
+    report = parseReportPayload(JSON.parse(String(formData.get("report"))));
+  } catch (error) {
+    if (!(error instanceof AnalysisFormatError) && !(error instanceof SyntaxError)) throw error;
+    return errorResponse(`Invalid report: ${error.message}`, 400);
+  }
+
+  const image = formData.get("image");
+  if (image !== null && (!(image instanceof Blob) || (image.type && !image.type.startsWith("image/")))) {
+    return errorResponse("image must be an image file", 415);
+  }
+  if (image && image.size > MAX_IMAGE_BYTES) {
+    return errorResponse("image is too large", 413);
+  }
+
+  const config = getFeedbackConfig();
+  if (config.mode === "mock") {
+    receiveReport(report, image ?? undefined);
+    return NextResponse.json({ id: report.id }, { status: 202 });
+  }
+  // The client keeps the report queued and tries again later, so nothing is lost while this is unset.
+  if (!config.url) return errorResponse("No feedback endpoint is configured", 503);
+  return forwardReport(config.url, config.timeoutMs, report, image ?? undefined);
+}
+
+// Lets developers see what the local stand-in received; only exists in development.
+export async function GET() {
+  if (process.env.NODE_ENV !== "development" || getFeedbackConfig().mode !== "mock") {
+    return errorResponse("Not found", 404);
+  }
+  return NextResponse.json({ reports: listReceivedReports() });
+}
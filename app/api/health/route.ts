@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { getBackendConfig } from "@/lib/backend-config";
+
+export const dynamic = "force-dynamic";
+
+// Short on purpose: the point is to nudge a sleeping backend awake, not to wait for it.
+const HEALTH_TIMEOUT_MS = 8000;
+
+// Pinged when the app opens so a cold-started backend is warm by the time the first photo is sent.
+export async function GET() {
+  const config = getBackendConfig();
+  if (config.mode === "mock") {
+    return NextResponse.json({ status: "ready" });
+  }
+
+  try {
+    // Any answer from the backend's own server means it is up, even a 404 for the root path.
+    const response = await fetch(new URL(config.url).origin, {
+      signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS),
+      cache: "no-store",
+    });
+    await response.body?.cancel();
+    const waking = [502, 503, 504].includes(response.status);
+    return NextResponse.json({ status: waking ? "waking-up" : "ready" }, { status: waking ? 503 : 200 });
+  } catch {
+    return NextResponse.json({ status: "waking-up" }, { status: 503 });
+  }
+}
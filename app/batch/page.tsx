@@ -0,0 +1,199 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, FileJson, FileSpreadsheet, ImagePlus, Trash2 } from "lucide-react";
+import { requestAnalysisWithRetry, toAnalysisRequestError } from "@/lib/api";
+import { useI18n } from "@/hooks/useI18n";
+import { preprocessImage } from "@/lib/preprocess";
+import {
+  BatchItem,
+  BatchSortKey,
+  batchCategories,
+  batchToCsv,
+  batchToJson,
+  compareBatchItems,
+  createConcurrencyLimit,
+} from "@/lib/batch";
+import { downloadText } from "@/lib/download";
+import BatchTable, { BatchSort, sameKey } from "@/components/BatchTable";
+
+// Uploads in flight at once; the backend is a single small instance.
+const BATCH_CONCURRENCY = 3;
+
+const isImage = (file: File) => file.type.startsWith("image/");
+
+export default function BatchPage() {
+  const { t, labelLanguage } = useI18n();
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [sort, setSort] = useState<BatchSort>({ key: "name", descending: false });
+  const [dragging, setDragging] = useState(false);
+  const limit = useRef(createConcurrencyLimit(BATCH_CONCURRENCY));
+  const itemsRef = useRef(items);
+
+  useEffect(() => {
+    itemsRef.current = items;
+  }, [items]);
+
+  useEffect(() => () => itemsRef.current.forEach((item) => URL.revokeObjectURL(item.preview)), []);
+
+  const updateItem = (id: string, update: Partial<BatchItem>) =>
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, ...update } : item)));
+
+  const analyze = useCallback((item: BatchItem) => {
+    updateItem(item.id, { status: "queued", error: undefined });
+    limit.current(async () => {
+      // Removed while waiting for a slot.
+      if (!itemsRef.current.some((entry) => entry.id === item.id)) return;
+      updateItem(item.id, { status: "processing" });
+      try {
+        const processed = await preprocessImage(item.file, item.file.name).catch(() => item.file);
+        updateItem(item.id, { status: "done", result: await requestAnalysisWithRetry([processed], [], { language: labelLanguage }) });
+      } catch (error) {
+        console.error(`Batch analysis of ${item.file.name} failed`, error);
+        updateItem(item.id, { status: "failed", error: t(`errors.${toAnalysisRequestError(error).kind}`) });
+      }
+    });
+  }, [t, labelLanguage]);
+
+  const addFiles = useCallback((files: File[]) => {
+    const added = files.filter(isImage).map((file): BatchItem => ({
+      id: crypto.randomUUID(),
+      file,
+      preview: URL.createObjectURL(file),
+      status: "queued",
+    }));
+    if (added.length === 0) return;
+    setItems((current) => [...current, ...added]);
+    itemsRef.current = [...itemsRef.current, ...added];
+    added.forEach(analyze);
+  }, [analyze]);
+
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = Array.from(e.clipboardData?.files ?? []);
+      if (files.some(isImage)) {
+        e.preventDefault();
+        // Pasted screenshots are all called "image.png"; number them so the table and exports stay readable.
+        addFiles(files.map((file, index) =>
+          new File([file], file.name === "image.png" ? `pasted-${Date.now()}-${index + 1}.png` : file.name, { type: file.type })
+        ));
+      }
+    };
+    window.addEventListener("paste", handlePaste);
+    return () => window.removeEventListener("paste", handlePaste);
+  }, [addFiles]);
+
+  const removeItem = (id: string) => {
+    setItems((current) => {
+      const item = current.find((entry) => entry.id === id);
+      if (item) URL.revokeObjectURL(item.preview);
+      return current.filter((entry) => entry.id !== id);
+    });
+  };
+
+  const clearAll = () => {
+    items.forEach((item) => URL.revokeObjectURL(item.preview));
+    setItems([]);
+  };
+
+  const changeSort = (key: BatchSortKey) =>
+    setSort((current) => ({
+      key,
+      descending: sameKey(current.key, key) ? !current.descending : false,
+    }));
+
+  const categories = useMemo(() => batchCategories(items), [items]);
+  const sortedItems = useMemo(
+    () => [...items].sort((a, b) => compareBatchItems(a, b, sort.key, sort.descending)),
+    [items, sort],
+  );
+
+  const finished = items.filter((item) => item.status === "done" || item.status === "failed").length;
+  const exportName = `clearbyte-batch-${new Date().toISOString().slice(0, 10)}`;
+
+  return (
+    <div
+      className="min-h-screen bg-gray-900 text-white"
+      onDragOver={(e) => {
+        e.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={(e) => {
+        if (e.currentTarget === e.target) setDragging(false);
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        setDragging(false);
+        addFiles(Array.from(e.dataTransfer.files));
+      }}
+    >
+      <div className="max-w-6xl mx-auto px-6 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <Link href="/" aria-label={t("a11y.back")} className="p-2 hover:bg-gray-800 rounded-full transition-colors">
+              <ArrowLeft className="w-5 h-5 text-gray-300" />
+            </Link>
+            <h1 className="text-2xl font-semibold">{t("batch.title")}</h1>
+          </div>
+          {items.length > 0 && (
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-gray-400 me-2">{t("batch.progress", { finished, total: items.length })}</span>
+              <button
+                onClick={() => downloadText(batchToCsv(sortedItems), `${exportName}.csv`, "text/csv")}
+                className="flex items-center space-x-2 px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-sm transition-colors"
+              >
+                <FileSpreadsheet className="w-4 h-4" />
+                <span>CSV</span>
+              </button>
+              <button
+                onClick={() => downloadText(batchToJson(sortedItems), `${exportName}.json`, "application/json")}
+                className="flex items-center space-x-2 px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-sm transition-colors"
+              >
+                <FileJson className="w-4 h-4" />
+                <span>JSON</span>
+              </button>
+              <button onClick={clearAll} aria-label={t("a11y.clearFiles")} className="p-2 hover:bg-gray-800 rounded-full transition-colors">
+                <Trash2 className="w-5 h-5 text-gray-300" />
+              </button>
+            </div>
+          )}
+        </div>
+
+        <label
+          className={`flex flex-col items-center justify-center py-10 border-2 border-dashed rounded-xl cursor-pointer transition-colors ${
+            dragging ? "border-blue-400 bg-blue-400/10" : "border-gray-700 hover:border-gray-500"
+          }`}
+        >
+          <ImagePlus className="w-10 h-10 text-gray-400 mb-3" />
+          <p className="font-medium">{t("batch.drop")}</p>
+          <p className="text-sm text-gray-400 mt-1">{t("batch.concurrency", { count: BATCH_CONCURRENCY })}</p>
+          <input
+            type="file"
+            accept="image/*"
+            multiple
+            onChange={(e) => {
+              addFiles(Array.from(e.target.files ?? []));
+              e.target.value = "";
+            }}
+            className="hidden"
+          />
+        </label>
+
+        {items.length > 0 && (
+          <BatchTable
+            items={sortedItems}
+            categories={categories}
+            sort={sort}
+            onSort={changeSort}
+            onRetry={(id) => {
+              const item = items.find((entry) => entry.id === id);
+              if (item) analyze(item);
+            }}
+            onRemove={removeItem}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import IngredientDetails from "@/components/IngredientDetails";
+import { getEntry, listEntries } from "@/lib/knowledge";
+
+interface IngredientPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+// Every entry is known at build time; anything else is a 404.
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return listEntries().map(({ slug }) => ({ slug }));
+}
+
+export async function generateMetadata({ params }: IngredientPageProps): Promise<Metadata> {
+  const entry = getEntry((await params).slug);
+  if (!entry) return { title: "Ingredient not found · Clear Byte" };
+
+  const title = `${entry.eNumber ? `${entry.eNumber} ${entry.name}` : entry.name} · Clear Byte`;
+  return { title, description: entry.description, openGraph: { title, description: entry.description, siteName: "ClearByte" } };
+}
+
+// Pre-rendered per entry; the details translate themselves on the client.
+export default async function IngredientPage({ params }: IngredientPageProps) {
+  const entry = getEntry((await params).slug);
+  if (!entry) notFound();
+
+  return (
+    <div className="min-h-screen bg-gray-900 py-8 px-4">
+      <div className="max-w-md mx-auto bg-white/80 backdrop-blur-lg rounded-3xl p-6 shadow-lg space-y-6">
+        <IngredientDetails entry={entry} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import type { Metadata } from "next";
+import IngredientGuide from "@/components/IngredientGuide";
+import { DEFAULT_LOCALE, createTranslator } from "@/lib/i18n";
+
+const t = createTranslator(DEFAULT_LOCALE);
+
+export const metadata: Metadata = { title: `${t("ingredients.title")} · Clear Byte`, description: t("ingredients.intro") };
+
+// Pre-rendered once; the guide translates itself on the client, so no locale is needed here.
+export default function IngredientsPage() {
+  return (
+    <div className="min-h-screen bg-gray-900 py-8 px-4">
+      <div className="max-w-md mx-auto bg-white/80 backdrop-blur-lg rounded-3xl p-6 shadow-lg space-y-6">
+        <IngredientGuide />
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,10 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
+import ServiceWorkerRegistration from "@/components/ServiceWorkerRegistration";
+import I18nProvider from "@/components/I18nProvider";
+import AccessibilityProvider from "@/components/AccessibilityProvider";
+import { DEFAULT_LOCALE, getDirection } from "@/lib/i18n";
 
 <link rel="icon" href="/C.svg" sizes="any" />
 
@@ -17,19 +21,32 @@ const geistMono = Geist_Mono({
 export const metadata: Metadata = {
   title: "Clear Byte",
   description: "Know what you eat!",
+  appleWebApp: {
+    capable: true,
+    title: "ClearByte",
+    statusBarStyle: "black-translucent",
+  },
 };
 
+export const viewport: Viewport = {
+  themeColor: "#111111",
+};
+
+// Rendered with the default locale so every route can stay static; I18nProvider switches to the user's on the client.
 export default function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="en">
+    <html lang={DEFAULT_LOCALE} dir={getDirection(DEFAULT_LOCALE)}>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <I18nProvider>
+          <AccessibilityProvider>{children}</AccessibilityProvider>
+        </I18nProvider>
+        <ServiceWorkerRegistration />
       </body>
     </html>
   );
@@ -0,0 +1,18 @@
+import type { MetadataRoute } from "next";
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "Clear Byte",
+    short_name: "ClearByte",
+    description: "Know what you eat!",
+    start_url: "/",
+    display: "standalone",
+    orientation: "portrait",
+    background_color: "#111111",
+    theme_color: "#111111",
+    icons: [
+      { src: "/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "any" },
+      { src: "/favicon.ico", sizes: "48x48", type: "image/x-icon" },
+    ],
+  };
+}
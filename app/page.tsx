@@ -1,96 +1,261 @@
 "use client";
 
-declare global {
-  interface MediaTrackConstraints {
-    focusMode?: ConstrainDOMString;
-    pointsOfInterest?: { x: number; y: number }[];
-  }
-  interface MediaTrackCapabilities {
-    focusMode?: string[];
-  }
-  interface MediaTrackConstraintSet {
-    focusMode?: ConstrainDOMString;
-    pointsOfInterest?: { x: number; y: number }[];
-  }
-}
-
-import { useState, useRef, useEffect, useCallback } from "react";
-import { RefreshCcw, Zap, Check, Image as ImageIcon, CameraOff, CheckCircle, XCircle, X, ChevronDown, ChevronUp, AlertTriangle } from "lucide-react";
-import axios from "axios";
+import { useState, useRef, useEffect, useCallback, useMemo } from "react";
+import { RefreshCcw, Zap, Check, Image as ImageIcon, CameraOff, CheckCircle, X, AlertTriangle, History, UserRound, WifiOff, Link as LinkIcon, GitCompare } from "lucide-react";
 import Image from "next/image";
+import Link from "next/link";
+import { AnalysisResult } from "@/lib/analysis";
+import { requestAnalysisWithRetry, toAnalysisRequestError, warmUpBackend } from "@/lib/api";
+import { isTransientError } from "@/lib/analysis-errors";
+import AnalysisResults from "@/components/AnalysisResults";
+import HistoryPanel from "@/components/HistoryPanel";
+import ComparePanel from "@/components/ComparePanel";
+import ReportDialog from "@/components/ReportDialog";
+import ReportsPanel from "@/components/ReportsPanel";
+import ProfileSetup from "@/components/ProfileSetup";
+import OutboxStatus from "@/components/OutboxStatus";
+import Toasts from "@/components/Toasts";
+import ShareActions from "@/components/ShareActions";
+import UploadProgress, { UploadState } from "@/components/UploadProgress";
+import ReviewEditor from "@/components/ReviewEditor";
+import CameraControlsPanel from "@/components/CameraControlsPanel";
+import ScanModeSwitch, { ScanMode } from "@/components/ScanModeSwitch";
+import BarcodeOverlay, { BarcodeLookup } from "@/components/BarcodeOverlay";
+import ShotStrip, { MAX_SHOTS, Shot } from "@/components/ShotStrip";
+import AutoCapturePanel from "@/components/AutoCapturePanel";
+import AccessibilitySettings from "@/components/AccessibilitySettings";
+import ReadAloudButton from "@/components/ReadAloudButton";
+import ShortcutsHelp, { ShortcutDescription } from "@/components/ShortcutsHelp";
+import { useBarcodeScanner } from "@/hooks/useBarcodeScanner";
+import { useAutoCapture } from "@/hooks/useAutoCapture";
+import { useVoiceGuidance } from "@/hooks/useVoiceGuidance";
+import { useKeyboardShortcuts } from "@/hooks/useKeyboardShortcuts";
+import { useAnnouncer } from "@/hooks/useAnnouncer";
+import { useAccessibility } from "@/hooks/useAccessibility";
+import { useComparison } from "@/hooks/useComparison";
+import { useReports } from "@/hooks/useReports";
+import { BLURRY_SHARPNESS, sampleVideoFrame, sharpnessScore } from "@/lib/frame-quality";
+import { linkProduct, lookupProduct } from "@/lib/products";
+import {
+  CameraControls,
+  NO_CAMERA_CONTROLS,
+  applyExposureCompensation,
+  applyFocusPoint,
+  applyTorch,
+  applyZoom,
+  clampToRange,
+  getVideoTrack,
+  listCameras,
+  readCameraControls,
+  readFacing,
+  stopStream,
+} from "@/lib/camera";
+import { useOutbox } from "@/hooks/useOutbox";
+import { useToasts } from "@/hooks/useToasts";
+import { useI18n } from "@/hooks/useI18n";
+import LanguageSwitcher from "@/components/LanguageSwitcher";
+import { DietaryProfile, EMPTY_PROFILE, loadProfile, saveProfile } from "@/lib/profile";
+import { ScanRecord, saveScan } from "@/lib/history";
+import { createThumbnail } from "@/lib/thumbnail";
+import { analyzeOffline } from "@/lib/offline-analysis";
+import { classifyText } from "@/lib/rules";
+import { resultTitle } from "@/lib/share";
+import { MAX_COMPARED } from "@/lib/compare";
+import type { ReportDraft, ReportTarget } from "@/lib/reports";
+import { describeResult } from "@/lib/result-summary";
+import { speak } from "@/lib/speech";
+import { preprocessImage } from "@/lib/preprocess";
 
-interface AnalysisResult {
-  text?: string;
-  classification?: Record<string, boolean>;
-}
+const SCREEN_FLASH_MS = 250;
 
 export default function CameraApp() {
-  const [image, setImage] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  // The shots of the current multi-shot session, in label order.
+  const [shots, setShots] = useState<Shot[]>([]);
+  const [scanMode, setScanMode] = useState<ScanMode>("label");
+  const [autoCapture, setAutoCapture] = useState(false);
+  const [barcodeLookup, setBarcodeLookup] = useState<BarcodeLookup | null>(null);
+  // Barcode the user couldn't find, waiting to be linked to their ingredient-photo result.
+  const [pendingBarcode, setPendingBarcode] = useState<string | null>(null);
+  // Captured or uploaded images waiting for the crop/perspective review, one at a time.
+  const [reviewQueue, setReviewQueue] = useState<{ blob: Blob; fileName: string; warning?: string }[]>([]);
+  const reviewSource = reviewQueue[0] ?? null;
   const [cameraFacing, setCameraFacing] = useState<"user" | "environment">("user");
+  // Facing of the camera actually streaming, which a deviceId pick can make differ from cameraFacing.
+  const [activeFacing, setActiveFacing] = useState<"user" | "environment">("user");
   const [flash, setFlash] = useState(false);
+  const [screenFlash, setScreenFlash] = useState(false);
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [controls, setControls] = useState<CameraControls>(NO_CAMERA_CONTROLS);
+  const [zoomLevel, setZoomLevel] = useState(1);
+  const [exposure, setExposure] = useState(0);
+  const pinchRef = useRef<{ distance: number; zoom: number } | null>(null);
   const [result, setResult] = useState<AnalysisResult | null>(null);
   const [loading, setLoading] = useState(false);
+  const [upload, setUpload] = useState<UploadState | null>(null);
+  const uploadControllerRef = useRef<AbortController | null>(null);
   const [resultVisible, setResultVisible] = useState(false);
   const [cameraPermission, setCameraPermission] = useState<boolean | null>(null);
   const [isMobile, setIsMobile] = useState(false);
-  const [expandedText, setExpandedText] = useState(false);
-  const [networkError, setNetworkError] = useState(false);
   const [showInstructions, setShowInstructions] = useState(true);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showCompare, setShowCompare] = useState(false);
+  // The shown result as a history record, so it can be added to the comparison.
+  const [resultRecord, setResultRecord] = useState<ScanRecord | null>(null);
+  // The first shot behind the shown result, offered (with consent) when reporting a problem.
+  const [resultImage, setResultImage] = useState<Blob | null>(null);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
+  const [showReports, setShowReports] = useState(false);
+  const [profile, setProfile] = useState<DietaryProfile | null>(null);
+  const [showProfileSetup, setShowProfileSetup] = useState(false);
   const [focusPoint, setFocusPoint] = useState<{x: number; y: number} | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isMounted, setIsMounted] = useState(false);
+  const { status: outboxStatus, enqueue, flush: flushOutbox, dismiss: dismissOutboxStatus } = useOutbox();
+  const { toasts, showToast, dismissToast } = useToasts();
+  const { compared, isCompared, toggleCompared, removeCompared, clearCompared } = useComparison();
+  const { reports, submit: submitReport } = useReports();
+  const { t, locale, labelLanguage } = useI18n();
+  const { settings: a11y } = useAccessibility();
+  const { announcement, announce } = useAnnouncer();
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const resultHeadingRef = useRef<HTMLHeadingElement>(null);
+
+  // The backend sleeps when idle; wake it while the user is still lining up the first photo.
+  useEffect(() => {
+    warmUpBackend().then((health) => {
+      if (health === "waking-up") showToast(t("upload.serverStarting"));
+    });
+  }, [showToast, t]);
+
+  const videoConstraints = useMemo<MediaTrackConstraints>(() => ({
+    ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: cameraFacing }),
+    focusMode: { ideal: "continuous" }
+  }), [cameraFacing, deviceId]);
+
+  const attachStream = useCallback((stream: MediaStream) => {
+    const video = videoRef.current;
+    if (!video) {
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+    stopStream(video);
+    video.srcObject = stream;
+    video.play();
+    const track = stream.getVideoTracks()[0];
+    const trackControls = track ? readCameraControls(track) : NO_CAMERA_CONTROLS;
+    const settings = track?.getSettings() ?? {};
+    setControls(trackControls);
+    if (track) setActiveFacing(readFacing(track));
+    setZoomLevel(settings.zoom ?? trackControls.zoom?.min ?? 1);
+    setExposure(settings.exposureCompensation ?? 0);
+    // A new track starts with the torch off.
+    setFlash(false);
+    listCameras().then(setCameras).catch((error) => console.error("Error listing cameras", error));
+  }, []);
 
   const checkCameraPermission = useCallback(async () => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({
-        video: { 
-          facingMode: cameraFacing,
-          focusMode: { ideal: "continuous" }
-        }
+        video: videoConstraints
       });
       if (stream) {
         setCameraPermission(true);
-        if (videoRef.current) {
-          videoRef.current.srcObject = stream;
-          videoRef.current.play();
-        }
+        attachStream(stream);
       }
     } catch (err) {
       console.error("Error accessing camera", err);
       setCameraPermission(false);
     }
-  }, [cameraFacing]);
+  }, [videoConstraints, attachStream]);
 
-  const handleVideoClick = (e: React.MouseEvent<HTMLVideoElement>) => {
+  // Focuses at a point given as a fraction of the viewfinder; the ring alone would be invisible to screen readers.
+  const focusAt = (x: number, y: number) => {
     const video = videoRef.current;
     if (!video || !video.srcObject) return;
     const stream = video.srcObject as MediaStream;
     const track = stream.getVideoTracks()[0];
     if (!track) return;
     const rect = video.getBoundingClientRect();
-    const x = (e.clientX - rect.left) / rect.width;
-    const y = (e.clientY - rect.top) / rect.height;
     setFocusPoint({
-      x: e.clientX - rect.left,
-      y: e.clientY - rect.top
+      x: x * rect.width,
+      y: y * rect.height
     });
     setTimeout(() => setFocusPoint(null), 1000);
-    try {
-      const capabilities = track.getCapabilities();
-      if (capabilities.focusMode && capabilities.focusMode.includes("manual")) {
-        track.applyConstraints({
-          advanced: [{ focusMode: "manual", pointsOfInterest: [{ x, y }] }
-        ]}).catch(console.error);
-      }
-    } catch (error) {
-      console.error("Error applying focus:", error);
+    announce(t("a11y.focusing"));
+    if (controls.manualFocus) {
+      applyFocusPoint(track, { x, y }).catch((error) => console.error("Error applying focus:", error));
     }
   };
 
+  const handleVideoClick = (e: React.MouseEvent<HTMLVideoElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    focusAt((e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height);
+  };
+
+  const handleVideoKeyDown = (e: React.KeyboardEvent<HTMLVideoElement>) => {
+    if (e.key !== "Enter" && e.key !== " ") return;
+    e.preventDefault();
+    focusAt(0.5, 0.5);
+  };
+
+  const toggleFlash = () => {
+    const next = !flash;
+    setFlash(next);
+    const track = getVideoTrack(videoRef.current);
+    if (controls.torch && track) {
+      applyTorch(track, next).catch((error) => {
+        console.error("Error toggling torch:", error);
+        setFlash(!next);
+      });
+    }
+  };
+
+  const changeZoom = (value: number) => {
+    const track = getVideoTrack(videoRef.current);
+    if (!controls.zoom || !track) return;
+    const zoom = clampToRange(value, controls.zoom);
+    setZoomLevel(zoom);
+    applyZoom(track, zoom).catch((error) => console.error("Error applying zoom:", error));
+  };
+
+  const changeExposure = (value: number) => {
+    const track = getVideoTrack(videoRef.current);
+    if (!controls.exposureCompensation || !track) return;
+    const compensation = clampToRange(value, controls.exposureCompensation);
+    setExposure(compensation);
+    applyExposureCompensation(track, compensation).catch((error) => console.error("Error applying exposure:", error));
+  };
+
+  const touchDistance = (touches: React.TouchList) =>
+    Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+
+  const handleTouchStart = (e: React.TouchEvent<HTMLVideoElement>) => {
+    if (e.touches.length === 2 && controls.zoom) {
+      pinchRef.current = { distance: touchDistance(e.touches), zoom: zoomLevel };
+    }
+  };
+
+  const handleTouchMove = (e: React.TouchEvent<HTMLVideoElement>) => {
+    const pinch = pinchRef.current;
+    if (!pinch || e.touches.length !== 2) return;
+    changeZoom(pinch.zoom * (touchDistance(e.touches) / pinch.distance));
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent<HTMLVideoElement>) => {
+    if (e.touches.length < 2) pinchRef.current = null;
+  };
+
+  const switchFacing = () => {
+    setDeviceId(null);
+    setCameraFacing(cameraFacing === "user" ? "environment" : "user");
+  };
+
   useEffect(() => {
     setIsMounted(true);
+    setProfile(loadProfile());
     const checkMobile = () => setIsMobile(window.innerWidth <= 768);
     checkMobile();
     window.addEventListener('resize', checkMobile);
@@ -103,111 +268,405 @@ export default function CameraApp() {
 
   const startCamera = useCallback(async () => {
     try {
+      // Release the current camera first; many phones can't open two at once.
+      stopStream(videoRef.current);
       const stream = await navigator.mediaDevices.getUserMedia({
-        video: { 
-          facingMode: cameraFacing,
-          focusMode: { ideal: "continuous" }
-        }
+        video: videoConstraints
       });
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        videoRef.current.play();
-      }
+      attachStream(stream);
     } catch (err) {
       console.error("Error accessing camera", err);
       setCameraPermission(false);
     }
-  }, [cameraFacing]);
+  }, [videoConstraints, attachStream]);
 
   useEffect(() => {
     if (isMounted && cameraPermission && !showInstructions) {
       startCamera();
     }
-  }, [cameraFacing, isMounted, cameraPermission, startCamera, showInstructions]);
+  }, [isMounted, cameraPermission, startCamera, showInstructions]);
+
+  const addShot = (file: File) => {
+    setShots((current) => [...current, { id: crypto.randomUUID(), file, preview: URL.createObjectURL(file) }]);
+  };
+
+  const removeShot = (id: string) => {
+    setShots((current) => {
+      const shot = current.find((entry) => entry.id === id);
+      if (shot) URL.revokeObjectURL(shot.preview);
+      return current.filter((entry) => entry.id !== id);
+    });
+  };
+
+  const clearShots = () => {
+    setShots((current) => {
+      current.forEach((shot) => URL.revokeObjectURL(shot.preview));
+      return [];
+    });
+  };
+
+  const acceptImage = async (source: Blob, fileName: string) => {
+    setLoading(true);
+    try {
+      addShot(await preprocessImage(source, fileName));
+    } catch (error) {
+      console.error("Image preprocessing failed", error);
+      addShot(source instanceof File ? source : new File([source], fileName, { type: source.type }));
+    } finally {
+      setLoading(false);
+    }
+  };
 
-  const captureImage = () => {
+  const captureImage = async () => {
+    if (shots.length + reviewQueue.length >= MAX_SHOTS) return;
     const video = videoRef.current;
     const canvas = canvasRef.current;
     if (!video || !canvas) return;
     const ctx = canvas.getContext("2d");
     if (!ctx) return;
+    // Without a torch, light the subject with a white screen for the front camera.
+    const useScreenFlash = flash && !controls.torch && activeFacing === "user";
+    if (useScreenFlash) {
+      setScreenFlash(true);
+      await new Promise((resolve) => setTimeout(resolve, SCREEN_FLASH_MS));
+    }
+    // Measured on a small sample first, the same way auto capture judges frames.
+    const sample = sampleVideoFrame(video, canvas);
+    const blurry = sample !== null && sharpnessScore(sample) < BLURRY_SHARPNESS;
     canvas.width = video.videoWidth;
     canvas.height = video.videoHeight;
     ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    if (useScreenFlash) setScreenFlash(false);
+    if (a11y.voiceGuidance) speak(t("guidance.captured"), locale);
     canvas.toBlob((blob) => {
       if (blob) {
-        const capturedImage = new File([blob], "camera-capture.jpg", {
-          type: "image/jpeg",
-        });
-        setImage(capturedImage);
-        setImagePreview(URL.createObjectURL(blob));
+        setReviewQueue((queue) => [
+          ...queue,
+          {
+            blob,
+            fileName: `camera-capture-${Date.now()}.jpg`,
+            warning: blurry ? t("capture.blurry") : undefined,
+          },
+        ]);
       }
-    }, "image/jpeg");
+    }, "image/jpeg", 0.95);
   };
 
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      setImage(file);
-      setImagePreview(URL.createObjectURL(file));
+    const files = Array.from(e.target.files ?? []);
+    const room = MAX_SHOTS - shots.length - reviewQueue.length;
+    if (files.length > room) {
+      showToast(t("capture.tooManyShots", { max: MAX_SHOTS, added: Math.max(room, 0) }), "error");
     }
+    const accepted = files.slice(0, Math.max(room, 0));
+    setReviewQueue((queue) => [...queue, ...accepted.map((file) => ({ blob: file, fileName: file.name }))]);
+    e.target.value = "";
   };
 
-  const submitImage = async () => {
-    if (!image) return;
+  const confirmReview = (selection: Blob) => {
+    if (!reviewSource) return;
+    acceptImage(selection, reviewSource.fileName);
+    setReviewQueue((queue) => queue.slice(1));
+  };
+
+  const dismissInstructions = () => {
+    setShowInstructions(false);
+    if (!profile) setShowProfileSetup(true);
+  };
+
+  const handleProfileSave = (updated: DietaryProfile) => {
+    try {
+      saveProfile(updated);
+    } catch (error) {
+      console.error("Failed to save dietary profile", error);
+    }
+    setProfile(updated);
+    setShowProfileSetup(false);
+  };
+
+  // Resolves to the stored record, or null when history is unavailable.
+  const recordScan = async (source: File | null, analysis: AnalysisResult): Promise<ScanRecord | null> => {
+    const thumbnail = source ? await createThumbnail(source).catch(() => undefined) : undefined;
+    try {
+      const record = await saveScan(analysis, thumbnail);
+      setResultRecord(record);
+      return record;
+    } catch (error) {
+      console.error("Failed to save scan to history", error);
+      // Without history the result can still be compared for this session.
+      setResultRecord({ id: crypto.randomUUID(), createdAt: Date.now(), thumbnail, result: analysis });
+      return null;
+    }
+  };
+
+  // Read aloud when the user asked for that; otherwise screen readers get it through the live region.
+  const announceResult = (analysis: AnalysisResult) => {
+    const summary = describeResult(analysis, t, profile);
+    if (a11y.readResultsAloud) speak(summary, locale);
+    else announce(summary);
+  };
+
+  const openHistoryRecord = (record: ScanRecord) => {
+    setResult(record.result);
+    setResultRecord(record);
+    setResultImage(null);
+    setShowHistory(false);
+    setResultVisible(true);
+    announceResult(record.result);
+  };
+
+  const showAnalysis = (source: File | null, analysis: AnalysisResult) => {
+    setResult(analysis);
+    setResultRecord(null);
+    setResultImage(source);
+    setResultVisible(true);
+    announceResult(analysis);
+    return recordScan(source, analysis);
+  };
+
+  // OCR mistakes fixed by hand are classified again with the on-device rules.
+  const correctText = (text: string) => {
+    if (!result) return;
+    const corrected: AnalysisResult = { ...classifyText(text), source: "corrected", product: result.product };
+    setResult(corrected);
+    setResultRecord((record) => ({ id: crypto.randomUUID(), createdAt: Date.now(), thumbnail: record?.thumbnail, result: corrected }));
+    announceResult(corrected);
+  };
+
+  const sendReport = async (draft: ReportDraft) => {
+    setReportTarget(null);
+    try {
+      await submitReport(draft);
+      showToast(t("report.thanks"));
+    } catch (error) {
+      console.error("Failed to save correction report", error);
+      showToast(t("report.saveFailed"), "error");
+    }
+  };
+
+  const toggleComparison = (record: ScanRecord) => {
+    if (!toggleCompared(record)) showToast(t("compare.full", { max: MAX_COMPARED }), "error");
+  };
+
+  const handleBarcode = async (barcode: string) => {
+    setBarcodeLookup({ barcode, status: "looking" });
+    try {
+      const match = await lookupProduct(barcode);
+      if (match) {
+        setBarcodeLookup(null);
+        showAnalysis(null, match.result);
+      } else {
+        setBarcodeLookup({ barcode, status: "missing" });
+      }
+    } catch (error) {
+      console.error("Product lookup failed", error);
+      setBarcodeLookup({ barcode, status: "missing" });
+    }
+  };
+
+  const { unavailable: barcodeUnavailable } = useBarcodeScanner(
+    videoRef,
+    Boolean(cameraPermission) && scanMode === "barcode" && !barcodeLookup && !resultVisible && !showHistory && !showCompare,
+    handleBarcode
+  );
+
+  // The live view is framing a label; frames are sampled then for auto capture, spoken guidance, or both.
+  const framing =
+    Boolean(cameraPermission) &&
+    scanMode === "label" &&
+    !reviewSource &&
+    !resultVisible &&
+    !showHistory &&
+    !showCompare &&
+    !loading &&
+    shots.length < MAX_SHOTS;
+
+  const { quality: frameQuality, progress: autoCaptureProgress } = useAutoCapture(
+    videoRef,
+    canvasRef,
+    framing && (autoCapture || a11y.voiceGuidance),
+    framing && autoCapture,
+    captureImage
+  );
+
+  useVoiceGuidance(frameQuality, framing && a11y.voiceGuidance, autoCapture, t, locale);
+
+  // Tell screen reader users each time a shot joins the session.
+  const shotCountRef = useRef(0);
+  useEffect(() => {
+    if (shots.length > shotCountRef.current) announce(t("a11y.shotAdded", { count: shots.length, max: MAX_SHOTS }));
+    shotCountRef.current = shots.length;
+  }, [shots.length, announce, t]);
+
+  // Move focus into the result sheet so keyboard and screen reader users land on it.
+  useEffect(() => {
+    if (resultVisible) resultHeadingRef.current?.focus();
+  }, [resultVisible]);
+
+  const photographIngredients = (barcode: string) => {
+    setPendingBarcode(barcode);
+    setBarcodeLookup(null);
+    setScanMode("label");
+  };
+
+  const linkResultToBarcode = async () => {
+    if (!pendingBarcode || !result) return;
+    try {
+      await linkProduct(pendingBarcode, result);
+      setPendingBarcode(null);
+    } catch (error) {
+      console.error("Failed to link product", error);
+      showToast(t("results.linkFailed"), "error");
+    }
+  };
+
+  const queueForRetry = async (images: File[], historyId?: string) => {
+    try {
+      const thumbnail = await createThumbnail(images[0]).catch(() => undefined);
+      await enqueue(images, images.map((image) => image.name), thumbnail, labelLanguage, historyId);
+    } catch (error) {
+      console.error("Failed to queue upload for retry", error);
+    }
+  };
+
+  const analyzeOnDevice = async () => {
+    if (shots.length === 0) return;
+    const images = shots.map((shot) => shot.file);
     setLoading(true);
     setResultVisible(false);
-    setNetworkError(false);
-    const formData = new FormData();
-    formData.append("file", image);
     try {
-      const response = await axios.post(
-        "https://clearbyte-backend-render.onrender.com/upload",
-        formData,
-        {
-          headers: {
-            "Content-Type": "multipart/form-data",
-          },
-          timeout: 30000,
-        }
-      );
-      setResult(response.data as AnalysisResult);
-      setResultVisible(true);
+      showAnalysis(images[0], await analyzeOffline(images));
+      clearShots();
     } catch (error) {
+      console.error("Offline analysis failed", error);
+      showToast(t("capture.offlineFailed"), "error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const submitImage = async () => {
+    if (shots.length === 0) return;
+    const images = shots.map((shot) => shot.file);
+    const controller = new AbortController();
+    uploadControllerRef.current = controller;
+    setLoading(true);
+    setUpload({ progress: 0 });
+    setResultVisible(false);
+    try {
+      const analysis = await requestAnalysisWithRetry(images, [], {
+        signal: controller.signal,
+        language: labelLanguage,
+        onUploadProgress: (progress) => setUpload({ progress }),
+        onRetry: (error, attempt) =>
+          setUpload({ progress: 0, retry: { attempt, message: t(`errors.${error.kind}`) } }),
+      });
+      showAnalysis(images[0], analysis);
+      clearShots();
+    } catch (caught) {
+      const error = toAnalysisRequestError(caught);
       console.error("Upload failed", error);
-      setNetworkError(true);
-      let errorMessage = "An error occurred while processing your request";
-      if (axios.isAxiosError(error)) {
-        if (error.response) {
-          errorMessage = `Server error: ${error.response.status} - ${error.response.data?.message || 'Unknown error'}`;
-        } else if (error.request) {
-          errorMessage = "No response from server. Please check your internet connection";
-        } else {
-          errorMessage = `Request error: ${error.message}`;
+      if (error.kind === "cancelled") {
+        showToast(t("errors.cancelled"));
+      } else if (isTransientError(error)) {
+        // Out of retries: give the user something now and keep the scan for later.
+        clearShots();
+        showToast(
+          error.kind === "offline"
+            ? t("errors.offline")
+            : t("upload.queued", { message: t(`errors.${error.kind}`) }),
+          "error"
+        );
+        setUpload(null);
+        let offlineRecord: ScanRecord | null = null;
+        try {
+          offlineRecord = await showAnalysis(images[0], await analyzeOffline(images));
+        } catch (offlineError) {
+          console.error("Offline analysis failed", offlineError);
         }
+        // Queued with the offline record's id, so the server's result replaces it instead of adding a second entry.
+        queueForRetry(images, offlineRecord?.id);
+      } else {
+        showToast(t(`errors.${error.kind}`), "error");
       }
-      alert(errorMessage);
     } finally {
+      uploadControllerRef.current = null;
+      setUpload(null);
       setLoading(false);
     }
   };
 
+  const cancelUpload = () => uploadControllerRef.current?.abort();
+
+  const closeTopPanel = () => {
+    if (showProfileSetup) {
+      if (profile) setShowProfileSetup(false);
+    } else if (showShortcuts) setShowShortcuts(false);
+    else if (reportTarget) setReportTarget(null);
+    else if (resultVisible) setResultVisible(false);
+    else if (showCompare) setShowCompare(false);
+    else if (showReports) setShowReports(false);
+    else if (showHistory) setShowHistory(false);
+  };
+
+  const toggleScanMode = () => {
+    setScanMode((mode) => (mode === "label" ? "barcode" : "label"));
+    setBarcodeLookup(null);
+  };
+
+  // Camera shortcuts only apply while the viewfinder is in front; the rest work over any panel.
+  const panelOpen = resultVisible || showHistory || showCompare || showReports || showShortcuts;
+  const shortcuts: (ShortcutDescription & { key: string; camera?: boolean; action: () => void })[] = [
+    { key: " ", keys: ["Space"], label: t("a11y.capture"), camera: true, action: () => scanMode === "label" && captureImage() },
+    { key: "Enter", keys: ["Enter"], label: t("a11y.submit"), camera: true, action: () => !loading && submitImage() },
+    { key: "u", keys: ["U"], label: t("a11y.upload"), camera: true, action: () => fileInputRef.current?.click() },
+    { key: "f", keys: ["F"], label: t("shortcuts.focus"), camera: true, action: () => focusAt(0.5, 0.5) },
+    { key: "a", keys: ["A"], label: t("shortcuts.autoCapture"), camera: true, action: () => setAutoCapture((current) => !current) },
+    { key: "b", keys: ["B"], label: t("shortcuts.mode"), camera: true, action: toggleScanMode },
+    { key: "r", keys: ["R"], label: t("speech.readAloud"), action: () => result && speak(describeResult(result, t, profile), locale) },
+    { key: "h", keys: ["H"], label: t("a11y.history"), action: () => setShowHistory(true) },
+    { key: "p", keys: ["P"], label: t("a11y.settings"), action: () => setShowProfileSetup(true) },
+    { key: "Escape", keys: ["Esc"], label: t("shortcuts.close"), action: closeTopPanel },
+    { key: "?", keys: ["?"], label: t("shortcuts.help"), action: () => setShowShortcuts((current) => !current) },
+  ];
+
+  // Over the profile dialog only Esc applies.
+  useKeyboardShortcuts(
+    Object.fromEntries(
+      shortcuts
+        .filter(({ key, camera }) => (showProfileSetup ? key === "Escape" : !camera || (!panelOpen && cameraPermission)))
+        .map(({ key, action }) => [key, action])
+    ),
+    !isMobile && !showInstructions && !reviewSource
+  );
+
   return (
     <div className="flex items-center justify-center min-h-screen w-full bg-gray-910">
-      {networkError && (
-        <div className="fixed top-4 left-1/2 transform -translate-x-1/2 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded flex items-center z-50">
-          <span className="block sm:inline">Network error occurred. Please check your connection.</span>
-          <button 
-            onClick={() => setNetworkError(false)}
-            className="ml-4 text-red-700 hover:text-red-900"
-          >
-            <X className="w-4 h-4" />
-          </button>
-        </div>
+      {screenFlash && <div className="fixed inset-0 bg-white z-50" />}
+
+      <Toasts toasts={toasts} onDismiss={dismissToast} />
+
+      <p role="status" aria-live="polite" className="sr-only">{announcement}</p>
+
+      {showShortcuts && (
+        <ShortcutsHelp shortcuts={shortcuts} onClose={() => setShowShortcuts(false)} />
       )}
 
+      <OutboxStatus
+        status={outboxStatus}
+        onRetry={() => flushOutbox(true)}
+        onView={() => {
+          dismissOutboxStatus();
+          setShowHistory(true);
+        }}
+        onDismiss={dismissOutboxStatus}
+      />
+
       {showInstructions && (
         <div 
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="instructions-title"
           className="absolute inset-0 flex flex-col items-center justify-center z-30"
           style={{
             background: "rgba(0, 0, 0, 0.85)",
@@ -216,19 +675,15 @@ export default function CameraApp() {
         >
           <div className="max-w-md p-6 bg-gray-900 rounded-xl border border-gray-700 mx-4">
             <div className="mb-6">
-              <h2 className="text-2xl font-semibold text-white mb-4">How to Use</h2>
+              <h2 id="instructions-title" className="text-2xl font-semibold text-white mb-4">{t("instructions.heading")}</h2>
               <div className="space-y-4">
                 <div className="flex items-start space-x-3">
                   <div className="flex-shrink-0 mt-1">
                     <CheckCircle className="w-5 h-5 text-green-400" />
                   </div>
                   <div>
-                    <h3 className="text-lg font-medium text-gray-100 mb-1">Instructions</h3>
-                    <p className="text-gray-400 leading-relaxed">
-                      Take a clear picture of the ingredients list using the camera, 
-                      or upload an existing image from your device. Submit the image 
-                      to get the classification results.
-                    </p>
+                    <h3 className="text-lg font-medium text-gray-100 mb-1">{t("instructions.title")}</h3>
+                    <p className="text-gray-400 leading-relaxed">{t("instructions.body")}</p>
                   </div>
                 </div>
                 <div className="flex items-start space-x-3">
@@ -236,26 +691,35 @@ export default function CameraApp() {
                     <AlertTriangle className="w-5 h-5 text-yellow-400" />
                   </div>
                   <div>
-                    <h3 className="text-lg font-medium text-gray-100 mb-1">Disclaimer</h3>
-                    <p className="text-gray-400 leading-relaxed">
-                      Accuracy may vary. This system cannot guarantee detection of 
-                      cross-contamination or verify slaughter methods. Results 
-                      should be verified independently.
-                    </p>
+                    <h3 className="text-lg font-medium text-gray-100 mb-1">{t("instructions.disclaimerTitle")}</h3>
+                    <p className="text-gray-400 leading-relaxed">{t("instructions.disclaimer")}</p>
                   </div>
                 </div>
               </div>
             </div>
+            <LanguageSwitcher className="mb-6" />
+            <AccessibilitySettings className="mb-6" />
+            <Link href="/ingredients" className="block mb-6 text-sm text-blue-400 hover:text-blue-300 underline">
+              {t("ingredients.browse")}
+            </Link>
             <button
-              onClick={() => setShowInstructions(false)}
+              onClick={dismissInstructions}
               className="w-full bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg transition-colors font-medium flex items-center justify-center space-x-2"
             >
-              <span>Got It</span>
+              <span>{t("instructions.confirm")}</span>
               <Check className="w-5 h-5" />
             </button>
           </div>
         </div>
       )}
+
+      {showProfileSetup && (
+        <ProfileSetup
+          initialProfile={profile ?? EMPTY_PROFILE}
+          onSave={handleProfileSave}
+          onCancel={profile ? () => setShowProfileSetup(false) : undefined}
+        />
+      )}
       
       <div 
         className={`relative overflow-hidden bg-[#111111] ${isMobile ? 'w-full h-screen' : 'w-[375px] h-[750px]'} shadow-2xl`}
@@ -271,11 +735,19 @@ export default function CameraApp() {
                 ref={videoRef} 
                 autoPlay 
                 playsInline 
-                className="absolute w-full h-full object-cover cursor-pointer"
+                className="absolute w-full h-full object-cover cursor-pointer touch-none"
+                tabIndex={0}
+                role="button"
+                aria-label={t("a11y.viewfinder")}
                 onClick={handleVideoClick}
+                onKeyDown={handleVideoKeyDown}
+                onTouchStart={handleTouchStart}
+                onTouchMove={handleTouchMove}
+                onTouchEnd={handleTouchEnd}
               />
               {focusPoint && (
                 <div
+                  aria-hidden
                   className="absolute w-20 h-20 border-2 border-white rounded-full opacity-70"
                   style={{
                     left: focusPoint.x - 40,
@@ -289,6 +761,7 @@ export default function CameraApp() {
           )}
           {cameraPermission === false && (
             <div 
+              role="alert"
               className="absolute inset-0 flex flex-col items-center justify-center"
               style={{
                 background: "rgba(0, 0, 0, 0.7)",
@@ -296,18 +769,24 @@ export default function CameraApp() {
               }}
             >
               <CameraOff className="w-16 h-16 text-white opacity-60 mb-4" />
-              <p className="text-white text-lg font-medium">Camera access denied</p>
-              <p className="text-gray-400 mt-2 max-w-xs text-center">
-                Please allow camera access in your browser settings to use this feature
-              </p>
+              <p className="text-white text-lg font-medium">{t("camera.denied")}</p>
+              <p className="text-gray-400 mt-2 max-w-xs text-center">{t("camera.deniedHint")}</p>
               <button 
                 onClick={checkCameraPermission}
                 className="mt-6 bg-white text-black px-6 py-2 rounded-lg"
               >
-                Try Again
+                {t("camera.retry")}
               </button>
             </div>
           )}
+          {cameraPermission && scanMode === "barcode" && (
+            <BarcodeOverlay
+              lookup={barcodeLookup}
+              unavailable={barcodeUnavailable}
+              onPhotographIngredients={photographIngredients}
+              onScanAgain={() => setBarcodeLookup(null)}
+            />
+          )}
           <canvas ref={canvasRef} className="hidden" />
         </div>
 
@@ -330,32 +809,136 @@ export default function CameraApp() {
 
         {cameraPermission && (
           <div className="absolute top-6 flex justify-between w-full px-6 z-10">
-            <button
-              onClick={() => setFlash(!flash)}
-              style={{
-                background: "rgba(255, 255, 255, 0.2)",
-                backdropFilter: "blur(10px)",
-                border: "1px solid rgba(255, 255, 255, 0.3)",
-              }}
-              className="p-3 rounded-full shadow-md"
-            >
-              <Zap className={`w-7 h-7 ${flash ? "text-yellow-500" : "text-white"}`} />
-            </button>
+            <div className="flex items-center space-x-2">
+              {(controls.torch || activeFacing === "user") && (
+                <button
+                  onClick={toggleFlash}
+                  aria-label={t("a11y.flash")}
+                  aria-pressed={flash}
+                  style={{
+                    background: "rgba(255, 255, 255, 0.2)",
+                    backdropFilter: "blur(10px)",
+                    border: "1px solid rgba(255, 255, 255, 0.3)",
+                  }}
+                  className="p-3 rounded-full shadow-md"
+                >
+                  <Zap className={`w-7 h-7 ${flash ? "text-yellow-500" : "text-white"}`} />
+                </button>
+              )}
 
-            <button
-              onClick={() => setCameraFacing(cameraFacing === "user" ? "environment" : "user")}
-              style={{
-                background: "rgba(255, 255, 255, 0.2)",
-                backdropFilter: "blur(10px)",
-                border: "1px solid rgba(255, 255, 255, 0.3)",
-              }}
-              className="p-3 rounded-full shadow-md"
-            >
-              <RefreshCcw className="w-7 h-7 text-white" />
-            </button>
+              <button
+                onClick={() => setShowProfileSetup(true)}
+                aria-label={t("a11y.settings")}
+                style={{
+                  background: "rgba(255, 255, 255, 0.2)",
+                  backdropFilter: "blur(10px)",
+                  border: "1px solid rgba(255, 255, 255, 0.3)",
+                }}
+                className="p-2 rounded-full shadow-md"
+              >
+                <UserRound className="w-5 h-5 text-white" />
+              </button>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              {compared.length > 0 && (
+                <button
+                  onClick={() => setShowCompare(true)}
+                  aria-label={t("compare.open", { count: compared.length })}
+                  style={{
+                    background: "rgba(255, 255, 255, 0.2)",
+                    backdropFilter: "blur(10px)",
+                    border: "1px solid rgba(255, 255, 255, 0.3)",
+                  }}
+                  className="flex items-center space-x-1 px-3 py-2 rounded-full shadow-md text-white text-sm"
+                >
+                  <GitCompare className="w-5 h-5" />
+                  <span>{compared.length}</span>
+                </button>
+              )}
+              <button
+                onClick={() => setShowHistory(true)}
+                aria-label={t("a11y.history")}
+                style={{
+                  background: "rgba(255, 255, 255, 0.2)",
+                  backdropFilter: "blur(10px)",
+                  border: "1px solid rgba(255, 255, 255, 0.3)",
+                }}
+                className="p-2 rounded-full shadow-md"
+              >
+                <History className="w-5 h-5 text-white" />
+              </button>
+
+              <button
+                onClick={switchFacing}
+                aria-label={t("a11y.switchCamera")}
+                style={{
+                  background: "rgba(255, 255, 255, 0.2)",
+                  backdropFilter: "blur(10px)",
+                  border: "1px solid rgba(255, 255, 255, 0.3)",
+                }}
+                className="p-3 rounded-full shadow-md"
+              >
+                <RefreshCcw className="w-7 h-7 text-white" />
+              </button>
+            </div>
           </div>
         )}
 
+        {cameraPermission && (
+          <ScanModeSwitch
+            mode={scanMode}
+            onChange={(mode) => {
+              setScanMode(mode);
+              setBarcodeLookup(null);
+            }}
+          />
+        )}
+
+        {cameraPermission && scanMode === "label" && (
+          <AutoCapturePanel
+            enabled={autoCapture}
+            quality={frameQuality}
+            progress={autoCaptureProgress}
+            onToggle={() => setAutoCapture((current) => !current)}
+          />
+        )}
+
+        {cameraPermission && (
+          <CameraControlsPanel
+            controls={controls}
+            zoom={zoomLevel}
+            exposure={exposure}
+            cameras={cameras}
+            deviceId={deviceId}
+            onZoomChange={changeZoom}
+            onExposureChange={changeExposure}
+            onDeviceChange={setDeviceId}
+          />
+        )}
+
+        {cameraPermission && (upload ? (
+          <UploadProgress state={upload} onCancel={cancelUpload} />
+        ) : (
+          <ShotStrip shots={shots} onReorder={setShots} onRemove={removeShot} onClear={clearShots} />
+        ))}
+
+        {cameraPermission && shots.length > 0 && !upload && (
+          <button
+            onClick={analyzeOnDevice}
+            disabled={loading}
+            style={{
+              background: "rgba(255, 255, 255, 0.2)",
+              backdropFilter: "blur(10px)",
+              border: "1px solid rgba(255, 255, 255, 0.3)",
+            }}
+            className="absolute bottom-[212px] left-1/2 -translate-x-1/2 flex items-center space-x-2 px-4 py-2 rounded-full text-sm text-white shadow-md z-10"
+          >
+            <WifiOff className="w-4 h-4" />
+            <span>{t("capture.analyzeOnDevice")}</span>
+          </button>
+        )}
+
         {cameraPermission && (
           <div
             className="absolute bottom-6 flex items-center justify-between w-[340px] h-[100px] p-4 rounded-full shadow-lg mx-auto left-0 right-0 z-10"
@@ -367,15 +950,18 @@ export default function CameraApp() {
           >
             <div className="relative w-16 h-16 rounded-full flex items-center justify-center bg-white bg-opacity-30 shadow-md overflow-hidden cursor-pointer">
               <input
+                ref={fileInputRef}
                 type="file"
                 accept="image/*"
+                multiple
+                aria-label={t("a11y.upload")}
                 onChange={handleImageUpload}
                 className="absolute inset-0 opacity-0 cursor-pointer"
               />
-              {imagePreview ? (
+              {shots.length > 0 ? (
                 <Image 
-                  src={imagePreview}
-                  alt="Captured preview"
+                  src={shots[shots.length - 1].preview}
+                  alt=""
                   width={64}
                   height={64}
                   className="w-full h-full object-cover rounded-full"
@@ -384,21 +970,33 @@ export default function CameraApp() {
               ) : (
                 <ImageIcon className="w-8 h-8 text-gray-400" />
               )}
+              {shots.length > 1 && (
+                <span aria-hidden className="absolute top-1 end-1 min-w-[20px] h-5 px-1 flex items-center justify-center rounded-full bg-blue-600 text-white text-xs font-medium pointer-events-none">
+                  {shots.length}
+                </span>
+              )}
             </div>
 
-            <button onClick={captureImage} className="relative flex items-center justify-center w-18 h-18 rounded-full border-[4px] border-white bg-white shadow-lg">
+            <button
+              onClick={captureImage}
+              aria-label={t("a11y.capture")}
+              disabled={scanMode === "barcode" || shots.length >= MAX_SHOTS}
+              className={`relative flex items-center justify-center w-18 h-18 rounded-full border-[4px] border-white bg-white shadow-lg ${scanMode === "barcode" || shots.length >= MAX_SHOTS ? "opacity-40" : ""}`}
+            >
               <div className="absolute w-[99%] h-[99%] bg-white rounded-full border-[2px] border-gray-400"></div>
             </button>
 
             <button
               onClick={submitImage}
+              aria-label={t("a11y.submit")}
+              aria-busy={loading}
               style={{
                 background: "rgba(255, 255, 255, 0.2)",
                 backdropFilter: "blur(10px)",
                 border: "1px solid rgba(255, 255, 255, 0.3)",
               }}
               className="p-3 rounded-full shadow-md relative"
-              disabled={loading || !image}
+              disabled={loading || shots.length === 0}
             >
               {loading ? (
                 <div className="absolute inset-0 flex items-center justify-center">
@@ -411,86 +1009,132 @@ export default function CameraApp() {
           </div>
         )}
 
+        {reviewSource && (
+          <ReviewEditor
+            key={`${reviewQueue.length}-${reviewSource.fileName}`}
+            source={reviewSource.blob}
+            warning={reviewSource.warning}
+            onConfirm={confirmReview}
+            onRetake={() => setReviewQueue((queue) => queue.slice(1))}
+          />
+        )}
+
+        {showHistory && (
+          <HistoryPanel
+            onClose={() => setShowHistory(false)}
+            onOpen={openHistoryRecord}
+            comparedIds={compared.map((record) => record.id)}
+            onToggleCompare={toggleComparison}
+            onShowReports={() => setShowReports(true)}
+          />
+        )}
+
+        {showReports && <ReportsPanel reports={reports} onClose={() => setShowReports(false)} />}
+
+        {showCompare && (
+          <ComparePanel
+            records={compared}
+            profile={profile}
+            onRemove={removeCompared}
+            onClear={clearCompared}
+            onClose={() => setShowCompare(false)}
+          />
+        )}
+
         {resultVisible && (
           <div
-            className="absolute bottom-0 w-full bg-white/80 backdrop-blur-lg rounded-t-3xl p-6 shadow-lg transition-transform duration-300 transform translate-y-0 z-20"
+            role="dialog"
+            aria-labelledby="results-title"
+            className="absolute bottom-0 w-full max-h-[90%] overflow-y-auto bg-white/80 high-contrast:bg-white backdrop-blur-lg rounded-t-3xl p-6 shadow-lg transition-transform duration-300 transform translate-y-0 z-20"
             style={{ transform: resultVisible ? 'translateY(0)' : 'translateY(100%)' }}
           >
             <div className="flex items-center justify-between mb-6">
-              <h2 className="text-2xl font-bold text-gray-800">Analysis Results</h2>
+              <h2 id="results-title" ref={resultHeadingRef} tabIndex={-1} className="text-2xl font-bold text-gray-800 outline-none">
+                {t("results.title")}
+              </h2>
               <button 
                 onClick={() => setResultVisible(false)}
+                aria-label={t("results.close")}
                 className="p-2 hover:bg-gray-100 rounded-full transition-colors"
               >
                 <X className="w-6 h-6 text-gray-600" />
               </button>
             </div>
 
-            <div className="space-y-4">
-              {result?.text && (
-                <div className="bg-white p-4 rounded-xl shadow-sm">
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <p className="text-gray-600 text-sm mb-2">Extracted Text</p>
-                      <p className="text-gray-800 whitespace-pre-wrap">
-                        {expandedText 
-                          ? result.text 
-                          : (result.text.length > 150
-                            ? `${result.text.substring(0, 150).replace(/\r?\n/g, ' ')}...`
-                            : result.text)}
-                      </p>
-                    </div>
-                    {result.text.length > 150 && (
-                      <button 
-                        onClick={() => setExpandedText(!expandedText)}
-                        className="ml-4 text-blue-600 hover:text-blue-700"
-                      >
-                        {expandedText ? <ChevronUp className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
-                      </button>
-                    )}
-                  </div>
-                </div>
-              )}
+            {result && (
+              <AnalysisResults result={result} profile={profile} onCorrectText={correctText} onReport={setReportTarget} />
+            )}
 
-              {result?.classification && (
-                <div className="bg-white p-4 rounded-xl shadow-sm">
-                  <p className="text-gray-600 text-sm mb-3">Food Classification</p>
-                  <div className="grid grid-cols-2 gap-3">
-                    {Object.entries(result.classification).map(([className, isValid]) => (
-                      <div 
-                        key={className}
-                        className="flex items-center justify-between p-3 bg-gray-50 rounded-lg"
-                      >
-                        <span className="font-medium text-gray-700 capitalize">
-                          {className}
-                        </span>
-                        <div className="flex items-center space-x-2">
-                          {isValid ? (
-                            <CheckCircle className="w-5 h-5 text-green-500" />
-                          ) : (
-                            <XCircle className="w-5 h-5 text-red-500" />
-                          )}
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              )}
-            </div>
+            {result && (
+              <div className="mt-4 space-y-2">
+                <ReadAloudButton text={describeResult(result, t, profile)} />
+                {resultRecord && (
+                  <button
+                    onClick={() => toggleComparison(resultRecord)}
+                    aria-pressed={isCompared(resultRecord.id)}
+                    className="w-full flex items-center justify-center space-x-2 bg-white hover:bg-gray-50 text-gray-800 px-6 py-3 rounded-lg shadow-sm transition-colors font-medium"
+                  >
+                    <GitCompare className="w-5 h-5" />
+                    <span>{t(isCompared(resultRecord.id) ? "compare.added" : "compare.add")}</span>
+                  </button>
+                )}
+                {compared.length > 0 && (
+                  <button
+                    onClick={() => {
+                      setResultVisible(false);
+                      setShowCompare(true);
+                    }}
+                    className="w-full text-sm text-blue-700 hover:text-blue-800 underline"
+                  >
+                    {t("compare.open", { count: compared.length })}
+                  </button>
+                )}
+                <ShareActions result={result} title={resultTitle(result, t)} />
+              </div>
+            )}
+
+            {pendingBarcode && result && result.source !== "database" && (
+              <button
+                onClick={linkResultToBarcode}
+                className="mt-4 w-full flex items-center justify-center space-x-2 bg-white hover:bg-gray-50 text-gray-800 px-6 py-3 rounded-lg shadow-sm transition-colors font-medium"
+              >
+                <LinkIcon className="w-5 h-5" />
+                <span>{t("results.saveForBarcode", { barcode: pendingBarcode })}</span>
+              </button>
+            )}
 
             <button 
               onClick={() => setResultVisible(false)}
               className="mt-6 w-full bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg transition-colors font-medium"
             >
-              Close Results
+              {t("results.close")}
             </button>
           </div>
         )}
+
+        {reportTarget && result && (
+          <ReportDialog
+            key={reportTarget.kind === "category" ? reportTarget.category : "text"}
+            result={result}
+            target={reportTarget}
+            image={resultImage}
+            onSubmit={sendReport}
+            onCancel={() => setReportTarget(null)}
+          />
+        )}
       </div>
       
       {!isMobile && (
         <div className="fixed bottom-6 text-gray-400 text-center max-w-md px-4">
-          <p>Use this camera interface to capture and analyze images</p>
+          <p>{t("desktop.hint")}</p>
+          <p className="mt-1 text-sm">
+            {t("desktop.batchPrompt")}{" "}
+            <Link href="/batch" className="text-blue-400 hover:text-blue-300 underline">{t("desktop.batchLink")}</Link>
+          </p>
+          <p className="mt-1 text-sm">
+            <Link href="/ingredients" className="text-blue-400 hover:text-blue-300 underline">{t("ingredients.browse")}</Link>
+          </p>
+          <p className="mt-1 text-sm">{t("shortcuts.hint")}</p>
         </div>
       )}
 
@@ -0,0 +1,49 @@
+import { ImageResponse } from "next/og";
+import type { Verdict } from "@/lib/analysis";
+import { DEFAULT_LOCALE, categoryLabel, createTranslator } from "@/lib/i18n";
+import { decodeSharedResult, resultTitle } from "@/lib/share";
+
+export const alt = "ClearByte analysis result";
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+const VERDICT_COLORS: Record<Verdict, string> = { yes: "#22c55e", no: "#ef4444", uncertain: "#f59e0b" };
+// Rendered for link previews, so always in the default language.
+const t = createTranslator(DEFAULT_LOCALE);
+
+// Link preview card: the product and one coloured pill per category.
+export default async function OpenGraphImage({ params }: { params: Promise<{ id: string }> }) {
+  const result = await decodeSharedResult((await params).id);
+  const categories = Object.entries(result?.classification ?? {}).slice(0, 6);
+
+  return new ImageResponse(
+    (
+      <div style={{ width: "100%", height: "100%", display: "flex", flexDirection: "column", background: "#111111", color: "#ffffff", padding: 64 }}>
+        <div style={{ fontSize: 28, color: "#9ca3af", letterSpacing: 4 }}>CLEARBYTE</div>
+        <div style={{ fontSize: 64, fontWeight: 700, marginTop: 16 }}>
+          {result ? resultTitle(result, t) : t("share.notFound")}
+        </div>
+        <div style={{ display: "flex", flexWrap: "wrap", marginTop: 48 }}>
+          {categories.map(([category, { verdict }]) => (
+            <div
+              key={category}
+              style={{
+                display: "flex",
+                alignItems: "center",
+                fontSize: 36,
+                padding: "16px 28px",
+                marginRight: 20,
+                marginBottom: 20,
+                borderRadius: 999,
+                background: VERDICT_COLORS[verdict],
+              }}
+            >
+              {t("share.summaryItem", { category: categoryLabel(t, category), verdict: t(`share.verdict.${verdict}`) })}
+            </div>
+          ))}
+        </div>
+      </div>
+    ),
+    size
+  );
+}
@@ -0,0 +1,42 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import SharedResult from "@/components/SharedResult";
+import { DEFAULT_LOCALE, createTranslator } from "@/lib/i18n";
+import { decodeSharedResult, resultTitle, summarizeResult } from "@/lib/share";
+
+interface ResultPageProps {
+  params: Promise<{ id: string }>;
+}
+
+// Link previews are fetched by crawlers, which have no language preference of their own.
+const t = createTranslator(DEFAULT_LOCALE);
+
+export async function generateMetadata({ params }: ResultPageProps): Promise<Metadata> {
+  const result = await decodeSharedResult((await params).id);
+  if (!result) return { title: `${t("share.notFound")} · Clear Byte` };
+
+  const title = `${resultTitle(result, t)} · Clear Byte`;
+  const description = summarizeResult(result, t);
+  return {
+    title,
+    description,
+    openGraph: { title, description, type: "article", siteName: "ClearByte" },
+    twitter: { card: "summary_large_image", title, description },
+    // Shared results are personal snapshots, not content for search engines.
+    robots: { index: false },
+  };
+}
+
+// Read-only view of a result someone shared; everything needed is in the URL.
+export default async function ResultPage({ params }: ResultPageProps) {
+  const result = await decodeSharedResult((await params).id);
+  if (!result) notFound();
+
+  return (
+    <div className="min-h-screen bg-gray-900 py-8 px-4">
+      <div className="max-w-md mx-auto bg-white/80 backdrop-blur-lg rounded-3xl p-6 shadow-lg space-y-6">
+        <SharedResult result={result} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { createContext, useCallback, useEffect, useMemo, useState } from "react";
+import {
+  AccessibilitySettings,
+  defaultAccessibilitySettings,
+  loadAccessibilitySettings,
+  saveAccessibilitySettings,
+} from "@/lib/accessibility";
+
+export interface AccessibilityContextValue {
+  settings: AccessibilitySettings;
+  updateSettings: (update: Partial<AccessibilitySettings>) => void;
+}
+
+export const AccessibilityContext = createContext<AccessibilityContextValue | null>(null);
+
+export default function AccessibilityProvider({ children }: { children: React.ReactNode }) {
+  const [settings, setSettings] = useState<AccessibilitySettings>(defaultAccessibilitySettings);
+
+  useEffect(() => {
+    setSettings(loadAccessibilitySettings());
+  }, []);
+
+  // The theme is a root attribute so globals.css and the high-contrast: variant can key off it on every page.
+  useEffect(() => {
+    if (settings.highContrast) document.documentElement.dataset.contrast = "high";
+    else delete document.documentElement.dataset.contrast;
+  }, [settings.highContrast]);
+
+  const updateSettings = useCallback((update: Partial<AccessibilitySettings>) => {
+    setSettings((current) => {
+      const next = { ...current, ...update };
+      saveAccessibilitySettings(next);
+      return next;
+    });
+  }, []);
+
+  const value = useMemo(() => ({ settings, updateSettings }), [settings, updateSettings]);
+
+  return <AccessibilityContext.Provider value={value}>{children}</AccessibilityContext.Provider>;
+}
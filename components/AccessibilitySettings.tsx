@@ -0,0 +1,48 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAccessibility } from "@/hooks/useAccessibility";
+import { useI18n } from "@/hooks/useI18n";
+import type { AccessibilitySettings as Settings } from "@/lib/accessibility";
+import type { MessageKey } from "@/lib/i18n";
+import { isSpeechAvailable } from "@/lib/speech";
+
+const OPTIONS: { key: keyof Settings; label: MessageKey; speech: boolean }[] = [
+  { key: "voiceGuidance", label: "settings.voiceGuidance", speech: true },
+  { key: "readResultsAloud", label: "settings.readResults", speech: true },
+  { key: "highContrast", label: "settings.highContrast", speech: false },
+];
+
+export default function AccessibilitySettings({ className = "" }: { className?: string }) {
+  const { t } = useI18n();
+  const { settings, updateSettings } = useAccessibility();
+  const [speechAvailable, setSpeechAvailable] = useState(true);
+
+  useEffect(() => {
+    setSpeechAvailable(isSpeechAvailable());
+  }, []);
+
+  return (
+    <fieldset className={className}>
+      <legend className="text-lg font-medium text-gray-100 mb-3">{t("settings.title")}</legend>
+      <div className="space-y-2">
+        {OPTIONS.map(({ key, label, speech }) => (
+          <label
+            key={key}
+            className={`flex items-center space-x-3 text-gray-300 cursor-pointer ${speech && !speechAvailable ? "opacity-50" : ""}`}
+          >
+            <input
+              type="checkbox"
+              checked={settings[key]}
+              disabled={speech && !speechAvailable}
+              onChange={(e) => updateSettings({ [key]: e.target.checked })}
+              className="w-4 h-4 accent-blue-600"
+            />
+            <span>{t(label)}</span>
+          </label>
+        ))}
+      </div>
+      {!speechAvailable && <p className="mt-2 text-xs text-gray-500">{t("settings.speechUnavailable")}</p>}
+    </fieldset>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { ShieldCheck, ShieldAlert, ShieldQuestion, WifiOff, ScanBarcode, Pencil, Flag } from "lucide-react";
+import type { AnalysisResult } from "@/lib/analysis";
+import type { ReportTarget } from "@/lib/reports";
+import {
+  DietaryProfile,
+  ProfileEvaluation,
+  describeProfileReason,
+  evaluateProfile,
+  hasPreferences,
+  isProfileCategory,
+} from "@/lib/profile";
+import ExtractedText from "@/components/ExtractedText";
+import VerdictIcon from "@/components/VerdictIcon";
+import { useI18n } from "@/hooks/useI18n";
+import { MessageKey, categoryLabel } from "@/lib/i18n";
+
+const PROFILE_VERDICTS: Record<ProfileEvaluation["verdict"], { label: MessageKey; Icon: typeof ShieldCheck; className: string }> = {
+  safe: { label: "profile.safe", Icon: ShieldCheck, className: "bg-green-50 border-green-300 text-green-800" },
+  unsafe: { label: "profile.unsafe", Icon: ShieldAlert, className: "bg-red-50 border-red-300 text-red-800" },
+  check: { label: "profile.check", Icon: ShieldQuestion, className: "bg-amber-50 border-amber-300 text-amber-800" },
+};
+
+function ProfileVerdictBanner({ evaluation }: { evaluation: ProfileEvaluation }) {
+  const { t } = useI18n();
+  const { label, Icon, className } = PROFILE_VERDICTS[evaluation.verdict];
+  return (
+    <div className={`p-4 rounded-xl border ${className}`}>
+      <div className="flex items-center space-x-3">
+        <Icon className="w-7 h-7 flex-shrink-0" />
+        <span className="text-lg font-semibold">{t(label)}</span>
+      </div>
+      {evaluation.reasons.length > 0 && (
+        <ul className="mt-2 ms-10 text-sm list-disc list-inside">
+          {evaluation.reasons.map((reason, index) => (
+            <li key={index}>{describeProfileReason(reason, t)}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface AnalysisResultsProps {
+  result: AnalysisResult;
+  profile?: DietaryProfile | null;
+  onCorrectText?: (text: string) => void;
+  // When given, category rows and the extracted text offer "report a problem".
+  onReport?: (target: ReportTarget) => void;
+}
+
+export default function AnalysisResults({ result, profile, onCorrectText, onReport }: AnalysisResultsProps) {
+  const { t } = useI18n();
+  const personalized = profile && hasPreferences(profile) ? profile : null;
+  // Profile categories float to the top; the rest are hidden when the user asked for that.
+  const categories = Object.entries(result.classification)
+    .filter(([category]) => !personalized?.hideOtherCategories || isProfileCategory(personalized, category))
+    .sort(([a], [b]) =>
+      personalized ? Number(isProfileCategory(personalized, b)) - Number(isProfileCategory(personalized, a)) : 0
+    );
+
+  return (
+    <div className="space-y-4">
+      {result.source === "offline" && (
+        <div className="flex items-start space-x-3 p-3 bg-gray-800 text-gray-100 rounded-xl">
+          <WifiOff className="w-5 h-5 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="font-medium">{t("analysis.offlineTitle")}</p>
+            <p className="text-sm text-gray-300">{t("analysis.offlineBody")}</p>
+          </div>
+        </div>
+      )}
+
+      {result.source === "corrected" && (
+        <div className="flex items-start space-x-3 p-3 bg-gray-800 text-gray-100 rounded-xl">
+          <Pencil className="w-5 h-5 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="font-medium">{t("analysis.correctedTitle")}</p>
+            <p className="text-sm text-gray-300">{t("analysis.correctedBody")}</p>
+          </div>
+        </div>
+      )}
+
+      {result.product && (
+        <div className="flex items-center space-x-3 p-3 bg-white rounded-xl shadow-sm">
+          <ScanBarcode className="w-6 h-6 text-gray-600 flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="font-medium text-gray-800 truncate">{result.product.name ?? t("analysis.savedProduct")}</p>
+            <p className="text-xs text-gray-500">
+              {result.product.brand ? `${result.product.brand} · ` : ""}{result.product.barcode}
+              {result.source === "database" && ` · ${t("analysis.fromDatabase")}`}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {personalized && <ProfileVerdictBanner evaluation={evaluateProfile(result, personalized)} />}
+
+      {result.text && (
+        <ExtractedText
+          result={result}
+          text={result.text}
+          onCorrect={onCorrectText}
+          onReport={onReport && (() => onReport({ kind: "text" }))}
+        />
+      )}
+
+      {categories.length > 0 && (
+        <div className="bg-white p-4 rounded-xl shadow-sm">
+          <p className="text-gray-600 text-sm mb-3">{t("analysis.classification")}</p>
+          <div className="grid grid-cols-2 gap-3">
+            {categories.map(([className, { verdict, confidence, offendingIngredients, reason }]) => (
+              <div 
+                key={className}
+                className={`p-3 bg-gray-50 rounded-lg ${
+                  personalized && isProfileCategory(personalized, className) ? "ring-2 ring-blue-400" : ""
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-gray-700">
+                    {categoryLabel(t, className)}
+                  </span>
+                  <div className="flex items-center space-x-2">
+                    {confidence !== undefined && (
+                      <span className="text-xs text-gray-500">{Math.round(confidence * 100)}%</span>
+                    )}
+                    <VerdictIcon verdict={verdict} />
+                  </div>
+                </div>
+                {verdict === "uncertain" && (
+                  <p className="mt-1 text-xs text-amber-600">{t("analysis.uncertain")}</p>
+                )}
+                {offendingIngredients.length > 0 && (
+                  <p className="mt-1 text-xs text-gray-600">
+                    {offendingIngredients.join(", ")}
+                  </p>
+                )}
+                {reason && (
+                  <p className="mt-1 text-xs text-gray-500 italic">{reason}</p>
+                )}
+                {onReport && (
+                  <button
+                    onClick={() => onReport({ kind: "category", category: className })}
+                    className="mt-2 flex items-center space-x-1 text-xs text-gray-500 hover:text-gray-700"
+                  >
+                    <Flag className="w-3 h-3" />
+                    <span>{t("report.action")}</span>
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
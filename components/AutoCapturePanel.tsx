@@ -0,0 +1,75 @@
+"use client";
+
+import { Aperture } from "lucide-react";
+import { AUTO_CAPTURE_THRESHOLDS, FrameQuality } from "@/lib/frame-quality";
+import { useI18n } from "@/hooks/useI18n";
+import type { MessageKey } from "@/lib/i18n";
+
+interface AutoCapturePanelProps {
+  enabled: boolean;
+  quality: FrameQuality | null;
+  progress: number;
+  onToggle: () => void;
+}
+
+const panelStyle = {
+  background: "rgba(255, 255, 255, 0.2)",
+  backdropFilter: "blur(10px)",
+  border: "1px solid rgba(255, 255, 255, 0.3)",
+};
+
+const METERS: { key: keyof FrameQuality; label: MessageKey }[] = [
+  { key: "sharpness", label: "autoCapture.sharp" },
+  { key: "stability", label: "autoCapture.steady" },
+  { key: "textDensity", label: "autoCapture.text" },
+];
+
+export default function AutoCapturePanel({ enabled, quality, progress, onToggle }: AutoCapturePanelProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="absolute top-36 start-6 z-10 flex flex-col items-start space-y-2">
+      <button
+        onClick={onToggle}
+        aria-pressed={enabled}
+        className={`flex items-center space-x-1 px-3 py-1.5 rounded-full text-xs shadow-md transition-colors ${
+          enabled ? "bg-white text-black" : "text-white"
+        }`}
+        style={enabled ? undefined : panelStyle}
+      >
+        <Aperture className="w-4 h-4" />
+        <span>{t("autoCapture.toggle")}</span>
+      </button>
+
+      {enabled && (
+        <div className="w-36 p-2 rounded-xl shadow-md space-y-1.5" style={panelStyle}>
+          {METERS.map(({ key, label }) => {
+            const value = quality?.[key] ?? 0;
+            const good = value >= AUTO_CAPTURE_THRESHOLDS[key];
+            return (
+              <div key={key} className="flex items-center space-x-2 text-[10px] text-white">
+                <span className="w-9">{t(label)}</span>
+                <div
+                  role="meter"
+                  aria-label={t(label)}
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={Math.round(value * 100)}
+                  className="flex-1 h-1.5 bg-white/30 rounded-full overflow-hidden"
+                >
+                  <div
+                    className={`h-full rounded-full transition-all duration-150 ${good ? "bg-green-400" : "bg-amber-400"}`}
+                    style={{ width: `${Math.round(value * 100)}%` }}
+                  />
+                </div>
+              </div>
+            );
+          })}
+          <p className="text-[10px] text-white text-center">
+            {progress > 0 ? t("autoCapture.holdStill") : t("autoCapture.point")}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import { PackageSearch } from "lucide-react";
+import { useI18n } from "@/hooks/useI18n";
+
+export interface BarcodeLookup {
+  barcode: string;
+  status: "looking" | "missing";
+}
+
+interface BarcodeOverlayProps {
+  lookup: BarcodeLookup | null;
+  unavailable: boolean;
+  onPhotographIngredients: (barcode: string) => void;
+  onScanAgain: () => void;
+}
+
+export default function BarcodeOverlay({ lookup, unavailable, onPhotographIngredients, onScanAgain }: BarcodeOverlayProps) {
+  const { t } = useI18n();
+
+  if (lookup?.status === "missing") {
+    return (
+      <div className="absolute inset-x-6 top-1/2 -translate-y-1/2 z-10 p-5 bg-gray-900/90 backdrop-blur-lg rounded-xl border border-gray-700 text-white">
+        <div className="flex items-center space-x-3 mb-2">
+          <PackageSearch className="w-6 h-6 text-amber-400" />
+          <h3 className="text-lg font-medium">{t("barcode.notFound")}</h3>
+        </div>
+        <p className="text-gray-400 text-sm leading-relaxed mb-4">
+          {t("barcode.notFoundBody", { barcode: lookup.barcode })}
+        </p>
+        <div className="flex space-x-3">
+          <button
+            onClick={onScanAgain}
+            className="flex-1 bg-gray-800 hover:bg-gray-700 px-4 py-2 rounded-lg transition-colors text-sm font-medium"
+          >
+            {t("barcode.scanAgain")}
+          </button>
+          <button
+            onClick={() => onPhotographIngredients(lookup.barcode)}
+            className="flex-1 bg-blue-600 hover:bg-blue-700 px-4 py-2 rounded-lg transition-colors text-sm font-medium"
+          >
+            {t("barcode.photograph")}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
+      <div className="w-64 h-32 border-2 border-white rounded-xl shadow-[0_0_0_9999px_rgba(0,0,0,0.35)]" />
+      <p className="mt-4 px-3 py-1 rounded-full bg-black/50 text-white text-sm">
+        {unavailable
+          ? t("barcode.unavailable")
+          : lookup?.status === "looking"
+            ? t("barcode.lookingUp", { barcode: lookup.barcode })
+            : t("barcode.point")}
+      </p>
+    </div>
+  );
+}
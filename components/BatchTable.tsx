@@ -0,0 +1,129 @@
+"use client";
+
+import { ArrowDown, ArrowUp, RotateCcw, Trash2 } from "lucide-react";
+import Image from "next/image";
+import { BatchItem, BatchSortKey } from "@/lib/batch";
+import VerdictIcon from "@/components/VerdictIcon";
+import { useI18n } from "@/hooks/useI18n";
+import { categoryLabel } from "@/lib/i18n";
+
+export interface BatchSort {
+  key: BatchSortKey;
+  descending: boolean;
+}
+
+interface BatchTableProps {
+  items: BatchItem[];
+  categories: string[];
+  sort: BatchSort;
+  onSort: (key: BatchSortKey) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+const STATUS_CLASSES: Record<BatchItem["status"], string> = {
+  queued: "text-gray-400",
+  processing: "text-blue-300",
+  done: "text-green-400",
+  failed: "text-red-400",
+};
+
+export const sameKey = (a: BatchSortKey, b: BatchSortKey) =>
+  typeof a === "string" || typeof b === "string" ? a === b : a.category === b.category;
+
+function SortHeader({ label, sortKey, sort, onSort }: { label: string; sortKey: BatchSortKey; sort: BatchSort; onSort: (key: BatchSortKey) => void }) {
+  const active = sameKey(sort.key, sortKey);
+  const Arrow = sort.descending ? ArrowDown : ArrowUp;
+  return (
+    <th className="px-3 py-2 font-medium text-start">
+      <button onClick={() => onSort(sortKey)} className="flex items-center space-x-1 hover:text-white">
+        <span>{label}</span>
+        {active && <Arrow className="w-3 h-3" />}
+      </button>
+    </th>
+  );
+}
+
+export default function BatchTable({ items, categories, sort, onSort, onRetry, onRemove }: BatchTableProps) {
+  const { t } = useI18n();
+  return (
+    <div className="overflow-x-auto rounded-xl border border-gray-800">
+      <table className="w-full text-sm">
+        <thead className="bg-gray-800 text-gray-300">
+          <tr>
+            <th className="px-3 py-2 w-14" />
+            <SortHeader label={t("batch.file")} sortKey="name" sort={sort} onSort={onSort} />
+            <SortHeader label={t("batch.status")} sortKey="status" sort={sort} onSort={onSort} />
+            {categories.map((category) => (
+              <SortHeader key={category} label={categoryLabel(t, category)} sortKey={{ category }} sort={sort} onSort={onSort} />
+            ))}
+            <th className="px-3 py-2 font-medium text-start">{t("batch.ingredients")}</th>
+            <th className="px-3 py-2 w-20" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-800">
+          {items.map((item) => (
+            <tr key={item.id} className="align-top hover:bg-gray-800/50">
+              <td className="px-3 py-2">
+                <Image
+                  src={item.preview}
+                  alt={item.file.name}
+                  width={40}
+                  height={40}
+                  className="w-10 h-10 object-cover rounded"
+                  unoptimized
+                />
+              </td>
+              <td className="px-3 py-2 max-w-[220px] truncate" title={item.file.name}>{item.file.name}</td>
+              <td className={`px-3 py-2 ${STATUS_CLASSES[item.status]}`}>
+                {t(`batch.status.${item.status}`)}
+                {item.error && <p className="text-xs text-gray-400 max-w-[200px]">{item.error}</p>}
+                {item.result?.source === "offline" && <p className="text-xs text-gray-400">{t("analysis.offlineTitle")}</p>}
+              </td>
+              {categories.map((category) => {
+                const entry = item.result?.classification[category];
+                return (
+                  <td key={category} className="px-3 py-2">
+                    {entry ? (
+                      <div title={entry.reason}>
+                        <VerdictIcon verdict={entry.verdict} />
+                        {entry.offendingIngredients.length > 0 && (
+                          <p className="mt-0.5 text-xs text-gray-400 max-w-[160px]">{entry.offendingIngredients.join(", ")}</p>
+                        )}
+                      </div>
+                    ) : (
+                      <span className="text-gray-600">—</span>
+                    )}
+                  </td>
+                );
+              })}
+              <td className="px-3 py-2 text-xs text-gray-400 max-w-[280px]">
+                <p className="line-clamp-3">{item.result?.ingredients.join(", ")}</p>
+              </td>
+              <td className="px-3 py-2">
+                <div className="flex space-x-1">
+                  {item.status === "failed" && (
+                    <button
+                      onClick={() => onRetry(item.id)}
+                      aria-label={t("a11y.retryFile", { name: item.file.name })}
+                      className="p-1.5 hover:bg-gray-700 rounded-full"
+                    >
+                      <RotateCcw className="w-4 h-4 text-gray-300" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onRemove(item.id)}
+                    aria-label={t("a11y.removeFile", { name: item.file.name })}
+                    className="p-1.5 hover:bg-gray-700 rounded-full"
+                  >
+                    <Trash2 className="w-4 h-4 text-gray-300" />
+                  </button>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { ZoomIn, Sun, Camera } from "lucide-react";
+import type { CameraControls } from "@/lib/camera";
+import { useI18n } from "@/hooks/useI18n";
+
+interface CameraControlsPanelProps {
+  controls: CameraControls;
+  zoom: number;
+  exposure: number;
+  cameras: MediaDeviceInfo[];
+  deviceId: string | null;
+  onZoomChange: (zoom: number) => void;
+  onExposureChange: (exposure: number) => void;
+  onDeviceChange: (deviceId: string) => void;
+}
+
+const panelStyle = {
+  background: "rgba(255, 255, 255, 0.2)",
+  backdropFilter: "blur(10px)",
+  border: "1px solid rgba(255, 255, 255, 0.3)",
+};
+
+export default function CameraControlsPanel({
+  controls,
+  zoom,
+  exposure,
+  cameras,
+  deviceId,
+  onZoomChange,
+  onExposureChange,
+  onDeviceChange,
+}: CameraControlsPanelProps) {
+  const { t } = useI18n();
+  const showLensPicker = cameras.length > 1;
+  if (!controls.zoom && !controls.exposureCompensation && !showLensPicker) return null;
+
+  return (
+    <div className="absolute top-36 end-6 z-10 flex flex-col items-end space-y-2">
+      {showLensPicker && (
+        <label className="flex items-center space-x-2 px-3 py-1.5 rounded-full text-white text-sm shadow-md" style={panelStyle}>
+          <Camera className="w-4 h-4 flex-shrink-0" />
+          <select
+            aria-label={t("a11y.camera")}
+            value={deviceId ?? ""}
+            onChange={(e) => onDeviceChange(e.target.value)}
+            className="bg-transparent outline-none max-w-[140px] truncate"
+          >
+            {!deviceId && <option value="" className="text-black">{t("camera.default")}</option>}
+            {cameras.map((camera, index) => (
+              <option key={camera.deviceId} value={camera.deviceId} className="text-black">
+                {camera.label || t("camera.numbered", { index: index + 1 })}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {controls.zoom && (
+        <label className="flex items-center space-x-2 px-3 py-1.5 rounded-full text-white text-xs shadow-md" style={panelStyle}>
+          <ZoomIn className="w-4 h-4 flex-shrink-0" />
+          <input
+            type="range"
+            min={controls.zoom.min}
+            max={controls.zoom.max}
+            step={controls.zoom.step || 0.1}
+            value={zoom}
+            aria-label={t("a11y.zoom")}
+            onChange={(e) => onZoomChange(Number(e.target.value))}
+            className="w-24 accent-white"
+          />
+          <span className="w-8 text-end">{zoom.toFixed(1)}×</span>
+        </label>
+      )}
+
+      {controls.exposureCompensation && (
+        <label className="flex items-center space-x-2 px-3 py-1.5 rounded-full text-white text-xs shadow-md" style={panelStyle}>
+          <Sun className="w-4 h-4 flex-shrink-0" />
+          <input
+            type="range"
+            min={controls.exposureCompensation.min}
+            max={controls.exposureCompensation.max}
+            step={controls.exposureCompensation.step || 0.1}
+            value={exposure}
+            aria-label={t("a11y.exposure")}
+            onChange={(e) => onExposureChange(Number(e.target.value))}
+            className="w-24 accent-white"
+          />
+          <span className="w-8 text-end">{exposure > 0 ? "+" : ""}{exposure.toFixed(1)}</span>
+        </label>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import { Fragment } from "react";
+import { X, Trophy, Image as ImageIcon } from "lucide-react";
+import Image from "next/image";
+import VerdictIcon from "@/components/VerdictIcon";
+import { useI18n } from "@/hooks/useI18n";
+import { MessageKey, categoryLabel } from "@/lib/i18n";
+import type { Verdict } from "@/lib/analysis";
+import type { DietaryProfile } from "@/lib/profile";
+import type { ScanRecord } from "@/lib/history";
+import { alignCategories, differingIngredients, isDifferingIngredient, scoreComparison } from "@/lib/compare";
+
+const VERDICT_LABELS: Record<Verdict, MessageKey> = {
+  yes: "speech.yes",
+  no: "speech.no",
+  uncertain: "analysis.uncertain",
+};
+
+interface ComparePanelProps {
+  records: ScanRecord[];
+  profile?: DietaryProfile | null;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+export default function ComparePanel({ records, profile, onRemove, onClear, onClose }: ComparePanelProps) {
+  const { locale, t } = useI18n();
+  const results = records.map((record) => record.result);
+  const categories = alignCategories(results, profile);
+  const differing = differingIngredients(results);
+  const score = scoreComparison(results, profile);
+  // One column per product; narrow screens scroll sideways instead of squeezing the verdicts.
+  const gridTemplateColumns = `repeat(${records.length}, minmax(140px, 1fr))`;
+
+  return (
+    <div role="dialog" aria-modal="true" aria-labelledby="compare-title" className="absolute inset-0 z-20 flex flex-col bg-gray-900 text-white">
+      <div className="flex items-center justify-between px-6 pt-6 pb-4">
+        <h2 id="compare-title" className="text-2xl font-semibold">{t("compare.title")}</h2>
+        <div className="flex items-center space-x-2">
+          {records.length > 0 && (
+            <button onClick={onClear} className="px-3 py-1 rounded-full text-sm bg-gray-800 text-gray-300 hover:bg-gray-700 transition-colors">
+              {t("compare.clear")}
+            </button>
+          )}
+          <button onClick={onClose} aria-label={t("a11y.dismiss")} className="p-2 hover:bg-gray-800 rounded-full transition-colors">
+            <X className="w-6 h-6 text-gray-300" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto px-6 pb-6">
+        {records.length < 2 && <p className="text-center text-gray-400 text-sm py-6">{t("compare.needMore")}</p>}
+
+        {records.length > 0 && (
+          <div className="grid gap-x-3 gap-y-2" style={{ gridTemplateColumns }}>
+            {records.map((record, index) => {
+              const best = score.best.includes(index);
+              return (
+                <div
+                  key={record.id}
+                  className={`rounded-xl p-3 bg-gray-800 border ${best ? "border-green-500" : "border-gray-700"}`}
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="w-12 h-12 flex-shrink-0 rounded-lg overflow-hidden bg-gray-700 flex items-center justify-center">
+                      {record.thumbnail ? (
+                        <Image src={record.thumbnail} alt="" width={48} height={48} className="w-full h-full object-cover" unoptimized />
+                      ) : (
+                        <ImageIcon className="w-6 h-6 text-gray-500" />
+                      )}
+                    </div>
+                    <button
+                      onClick={() => onRemove(record.id)}
+                      aria-label={t("compare.remove")}
+                      className="p-1 text-gray-400 hover:text-white transition-colors"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <p className="mt-2 text-sm font-medium truncate" dir="auto">
+                    {record.result.product?.name ?? t("compare.product", { index: index + 1 })}
+                  </p>
+                  <p className="text-xs text-gray-400">{new Date(record.createdAt).toLocaleString(locale)}</p>
+                  {score.total > 0 && (
+                    <p className="mt-1 text-xs text-gray-300">
+                      {t("compare.passes", { count: score.passes[index], total: score.total })}
+                    </p>
+                  )}
+                  {best && (
+                    <p className="mt-2 inline-flex items-center space-x-1 rounded-full bg-green-600 px-2 py-0.5 text-xs font-medium">
+                      <Trophy className="w-3 h-3" />
+                      <span>{t("compare.best")}</span>
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+
+            {categories.map((category) => (
+              <Fragment key={category}>
+                <p className="mt-2 text-sm font-medium text-gray-300" style={{ gridColumn: "1 / -1" }}>
+                  {categoryLabel(t, category)}
+                </p>
+                {records.map((record) => {
+                  const entry = record.result.classification[category];
+                  return (
+                    <div key={record.id} className="flex items-center space-x-2 rounded-lg bg-gray-800 px-3 py-2 text-sm">
+                      {entry ? (
+                        <>
+                          <VerdictIcon verdict={entry.verdict} />
+                          <span className="sr-only">{t(VERDICT_LABELS[entry.verdict])}</span>
+                          {entry.offendingIngredients.length > 0 && (
+                            <span className="text-xs text-gray-400 truncate" dir="auto">{entry.offendingIngredients.join(", ")}</span>
+                          )}
+                        </>
+                      ) : (
+                        <span className="text-gray-500">{t("compare.notReported")}</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </Fragment>
+            ))}
+
+            <div className="mt-4" style={{ gridColumn: "1 / -1" }}>
+              <p className="text-sm font-medium text-gray-300">{t("compare.ingredients")}</p>
+              {records.length > 1 && (
+                <p className="mt-1 flex items-center space-x-2 text-xs text-gray-400">
+                  <span className="inline-block w-3 h-3 rounded-sm bg-amber-500/40 border border-amber-400" />
+                  <span>{t("compare.differenceHint")}</span>
+                </p>
+              )}
+            </div>
+            {records.map((record, index) => (
+              <div key={record.id} className="rounded-lg bg-gray-800 p-3">
+                {record.result.ingredients.length === 0 ? (
+                  <p className="text-xs text-gray-500">{t("compare.noIngredients")}</p>
+                ) : (
+                  <ul className="flex flex-wrap gap-1">
+                    {record.result.ingredients.map((ingredient, ingredientIndex) => (
+                      <li
+                        key={`${ingredient}-${ingredientIndex}`}
+                        dir="auto"
+                        className={`rounded px-1.5 py-0.5 text-xs ${
+                          records.length > 1 && isDifferingIngredient(differing[index], ingredient)
+                            ? "bg-amber-500/40 border border-amber-400 text-amber-50"
+                            : "bg-gray-700 text-gray-300"
+                        }`}
+                      >
+                        {ingredient}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { BookOpen, ChevronDown, ChevronUp, Flag, Pencil, RotateCcw, X } from "lucide-react";
+import type { AnalysisResult } from "@/lib/analysis";
+import { CategoryHit, TextSegment, tokenizeIngredientText } from "@/lib/ingredient-text";
+import { explainIngredient } from "@/lib/rules";
+import { findEntry, localizedName } from "@/lib/knowledge";
+import VerdictIcon from "@/components/VerdictIcon";
+import { useI18n } from "@/hooks/useI18n";
+import { categoryLabel } from "@/lib/i18n";
+
+// Collapsed height of the text, in tokens; longer labels get the expand chevron.
+const COLLAPSED_SEGMENTS = 40;
+
+// Highlight colours per category; categories we don't know get the fallback.
+const CATEGORY_COLORS: Record<string, { highlight: string; dot: string }> = {
+  vegan: { highlight: "bg-green-100 text-green-900 decoration-green-500", dot: "bg-green-500" },
+  vegetarian: { highlight: "bg-lime-100 text-lime-900 decoration-lime-500", dot: "bg-lime-500" },
+  halal: { highlight: "bg-sky-100 text-sky-900 decoration-sky-500", dot: "bg-sky-500" },
+  "gluten free": { highlight: "bg-orange-100 text-orange-900 decoration-orange-500", dot: "bg-orange-500" },
+};
+const FALLBACK_COLOR = { highlight: "bg-purple-100 text-purple-900 decoration-purple-500", dot: "bg-purple-500" };
+
+export const categoryColor = (category: string) => CATEGORY_COLORS[category.toLowerCase()] ?? FALLBACK_COLOR;
+
+type IngredientSegment = Extract<TextSegment, { kind: "ingredient" }>;
+
+// A definite "no" colours the token over an "uncertain".
+const leadingHit = (hits: CategoryHit[]) => hits.find((hit) => hit.verdict === "no") ?? hits[0];
+
+function IngredientExplanation({
+  segment,
+  result,
+  onClose,
+}: {
+  segment: IngredientSegment;
+  result: AnalysisResult;
+  onClose: () => void;
+}) {
+  const { t, locale } = useI18n();
+  const { matches } = explainIngredient(segment.text);
+  const entry = findEntry(segment.text);
+  // The knowledge base describes the ingredient itself; the rule reasons are the fallback.
+  const descriptions = entry ? [entry.description] : Array.from(new Set(matches.map((match) => match.reason)));
+
+  return (
+    <div className="mt-3 p-3 bg-gray-50 rounded-lg border border-gray-200">
+      <div className="flex items-start justify-between">
+        <div>
+          <p className="font-medium text-gray-800">{segment.text}</p>
+          {segment.eNumbers.length > 0 && (
+            <p className="text-xs text-gray-500">{t("text.additive", { codes: segment.eNumbers.join(", ") })}</p>
+          )}
+        </div>
+        <button onClick={onClose} aria-label={t("a11y.dismiss")} className="p-1 hover:bg-gray-200 rounded-full">
+          <X className="w-4 h-4 text-gray-500" />
+        </button>
+      </div>
+
+      <p className="mt-2 text-xs font-medium text-gray-600">{t("text.whatItIs")}</p>
+      <p className="text-sm text-gray-700">
+        {descriptions.length > 0 ? descriptions.join(". ") : t("text.noNotes")}
+      </p>
+
+      <p className="mt-2 text-xs font-medium text-gray-600">{t("text.affected")}</p>
+      {segment.hits.length > 0 ? (
+        <ul className="mt-1 space-y-1">
+          {segment.hits.map(({ category, verdict }) => (
+            <li key={category} className="flex items-start space-x-2 text-sm text-gray-700">
+              <VerdictIcon verdict={verdict} />
+              <span>
+                <span className="font-medium">{categoryLabel(t, category)}</span>
+                {result.classification[category]?.reason && (
+                  <span className="text-gray-500"> — {result.classification[category].reason}</span>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-700">{t("text.noneAffected")}</p>
+      )}
+
+      {entry && (
+        // A new tab, so the result stays open behind it.
+        <Link
+          href={`/ingredients/${entry.slug}`}
+          target="_blank"
+          className="mt-3 inline-flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+        >
+          <BookOpen className="w-4 h-4" />
+          <span>{t("text.learnMore", { name: localizedName(entry, locale) })}</span>
+        </Link>
+      )}
+    </div>
+  );
+}
+
+interface ExtractedTextProps {
+  result: AnalysisResult;
+  text: string;
+  // When given, the user can fix OCR mistakes and have the text classified again.
+  onCorrect?: (text: string) => void;
+  onReport?: () => void;
+}
+
+export default function ExtractedText({ result, text, onCorrect, onReport }: ExtractedTextProps) {
+  const { t } = useI18n();
+  const [expanded, setExpanded] = useState(false);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [draft, setDraft] = useState<string | null>(null);
+  const segments = useMemo(() => tokenizeIngredientText(text, result), [text, result]);
+  const collapsible = segments.length > COLLAPSED_SEGMENTS;
+  const visible = expanded || !collapsible ? segments : segments.slice(0, COLLAPSED_SEGMENTS);
+  const selectedSegment = selected !== null ? segments[selected] : undefined;
+  const categoriesShown = Array.from(
+    new Set(segments.flatMap((segment) => (segment.kind === "ingredient" ? segment.hits.map((hit) => hit.category) : [])))
+  );
+
+  const submitCorrection = () => {
+    if (draft === null || !onCorrect) return;
+    onCorrect(draft);
+    setDraft(null);
+    setSelected(null);
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-gray-600 text-sm">{t("text.title")}</p>
+        {draft === null && (
+          <div className="flex items-center space-x-3">
+            {onReport && (
+              <button onClick={onReport} className="flex items-center space-x-1 text-sm text-gray-500 hover:text-gray-700">
+                <Flag className="w-4 h-4" />
+                <span>{t("report.action")}</span>
+              </button>
+            )}
+            {onCorrect && (
+              <button
+                onClick={() => setDraft(text)}
+                className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+              >
+                <Pencil className="w-4 h-4" />
+                <span>{t("text.correct")}</span>
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {draft !== null ? (
+        <div>
+          <textarea
+            value={draft}
+            dir="auto"
+            onChange={(e) => setDraft(e.target.value)}
+            rows={6}
+            className="w-full p-2 text-sm text-gray-800 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-400"
+          />
+          <div className="mt-2 flex space-x-2">
+            <button
+              onClick={() => setDraft(null)}
+              className="flex-1 px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+            >
+              {t("text.cancel")}
+            </button>
+            <button
+              onClick={submitCorrection}
+              disabled={!draft.trim() || draft === text}
+              className="flex-1 flex items-center justify-center space-x-1 px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-60"
+            >
+              <RotateCcw className="w-4 h-4" />
+              <span>{t("text.rerun")}</span>
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="flex items-start justify-between">
+            {/* The label's own language decides the direction, not the app's. */}
+            <p dir="auto" className="flex-1 text-gray-800 whitespace-pre-wrap leading-relaxed">
+              {visible.map((segment, index) => {
+                if (segment.kind === "separator") return <span key={index}>{segment.text}</span>;
+                const hit = leadingHit(segment.hits);
+                const color = hit ? categoryColor(hit.category).highlight : "";
+                return (
+                  <button
+                    key={index}
+                    onClick={() => setSelected(selected === index ? null : index)}
+                    className={`inline rounded px-0.5 text-start ${
+                      hit ? `${color} ${hit.verdict === "uncertain" ? "underline decoration-dotted" : "font-medium"}` : "hover:bg-gray-100"
+                    } ${segment.eNumbers.length > 0 && !hit ? "underline decoration-gray-400" : ""} ${
+                      selected === index ? "ring-2 ring-blue-400" : ""
+                    }`}
+                  >
+                    {segment.text}
+                  </button>
+                );
+              })}
+              {!expanded && collapsible && "…"}
+            </p>
+            {collapsible && (
+              <button
+                onClick={() => setExpanded(!expanded)}
+                aria-label={expanded ? t("text.collapse") : t("text.expand")}
+                aria-expanded={expanded}
+                className="ms-4 text-blue-600 hover:text-blue-700"
+              >
+                {expanded ? <ChevronUp className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
+              </button>
+            )}
+          </div>
+
+          {categoriesShown.length > 0 && (
+            <div className="mt-3 flex flex-wrap gap-3 text-xs text-gray-600">
+              {categoriesShown.map((category) => (
+                <span key={category} className="flex items-center space-x-1">
+                  <span className={`w-2.5 h-2.5 rounded-full ${categoryColor(category).dot}`} />
+                  <span>{categoryLabel(t, category)}</span>
+                </span>
+              ))}
+            </div>
+          )}
+
+          {selectedSegment?.kind === "ingredient" && (
+            <IngredientExplanation segment={selectedSegment} result={result} onClose={() => setSelected(null)} />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
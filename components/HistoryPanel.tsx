@@ -0,0 +1,164 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { X, Search, Trash2, GitCompare, Flag, CheckCircle, XCircle, HelpCircle, Image as ImageIcon } from "lucide-react";
+import Image from "next/image";
+import { useI18n } from "@/hooks/useI18n";
+import { ScanOutcome, ScanOutcomeFilter, ScanRecord, deleteScan, filterScans, getScanOutcome, listScans } from "@/lib/history";
+
+const OUTCOME_FILTERS: ScanOutcomeFilter[] = ["all", "pass", "fail", "uncertain"];
+
+function OutcomeIcon({ outcome }: { outcome: ScanOutcome }) {
+  if (outcome === "pass") return <CheckCircle className="w-5 h-5 text-green-400" />;
+  if (outcome === "fail") return <XCircle className="w-5 h-5 text-red-400" />;
+  return <HelpCircle className="w-5 h-5 text-amber-400" />;
+}
+
+interface HistoryPanelProps {
+  onClose: () => void;
+  onOpen: (record: ScanRecord) => void;
+  // Ids of the scans currently in the comparison; the compare toggle only shows when onToggleCompare is set.
+  comparedIds?: string[];
+  onToggleCompare?: (record: ScanRecord) => void;
+  onShowReports?: () => void;
+}
+
+export default function HistoryPanel({ onClose, onOpen, comparedIds = [], onToggleCompare, onShowReports }: HistoryPanelProps) {
+  const { locale, t } = useI18n();
+  const [records, setRecords] = useState<ScanRecord[] | null>(null);
+  const [query, setQuery] = useState("");
+  const [outcome, setOutcome] = useState<ScanOutcomeFilter>("all");
+  const [loadError, setLoadError] = useState(false);
+
+  useEffect(() => {
+    listScans()
+      .then(setRecords)
+      .catch((error) => {
+        console.error("Failed to load scan history", error);
+        setLoadError(true);
+        setRecords([]);
+      });
+  }, []);
+
+  const visibleRecords = useMemo(
+    () => (records ? filterScans(records, query, outcome) : []),
+    [records, query, outcome]
+  );
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteScan(id);
+      setRecords((current) => current?.filter((record) => record.id !== id) ?? null);
+    } catch (error) {
+      console.error("Failed to delete scan", error);
+    }
+  };
+
+  return (
+    <div role="dialog" aria-modal="true" aria-labelledby="history-title" className="absolute inset-0 z-20 flex flex-col bg-gray-900 text-white">
+      <div className="flex items-center justify-between px-6 pt-6 pb-4">
+        <h2 id="history-title" className="text-2xl font-semibold">{t("history.title")}</h2>
+        <div className="flex items-center space-x-2">
+          {onShowReports && (
+            <button
+              onClick={onShowReports}
+              className="flex items-center space-x-1 px-3 py-1 rounded-full text-sm bg-gray-800 text-gray-300 hover:bg-gray-700 transition-colors"
+            >
+              <Flag className="w-4 h-4" />
+              <span>{t("report.open")}</span>
+            </button>
+          )}
+          <button onClick={onClose} aria-label={t("a11y.dismiss")} className="p-2 hover:bg-gray-800 rounded-full transition-colors">
+            <X className="w-6 h-6 text-gray-300" />
+          </button>
+        </div>
+      </div>
+
+      <div className="px-6 space-y-3">
+        <div className="flex items-center bg-gray-800 rounded-lg px-3">
+          <Search className="w-4 h-4 text-gray-400" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t("history.search")}
+            className="flex-1 bg-transparent px-2 py-2 text-sm outline-none placeholder-gray-500"
+          />
+        </div>
+        <div className="flex space-x-2">
+          {OUTCOME_FILTERS.map((value) => (
+            <button
+              key={value}
+              onClick={() => setOutcome(value)}
+              className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                outcome === value ? "bg-blue-600 text-white" : "bg-gray-800 text-gray-300 hover:bg-gray-700"
+              }`}
+            >
+              {t(`history.filter.${value}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
+        {records === null && (
+          <div className="flex justify-center py-10">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white"></div>
+          </div>
+        )}
+        {loadError && (
+          <p className="text-center text-red-400 text-sm">{t("history.unavailable")}</p>
+        )}
+        {records !== null && !loadError && visibleRecords.length === 0 && (
+          <p className="text-center text-gray-400 text-sm py-10">
+            {records.length === 0 ? t("history.empty") : t("history.noMatches")}
+          </p>
+        )}
+        {visibleRecords.map((record) => (
+          <div key={record.id} className="flex items-center bg-gray-800 rounded-xl p-3 space-x-3">
+            <button onClick={() => onOpen(record)} className="flex flex-1 items-center space-x-3 text-start min-w-0">
+              <div className="w-12 h-12 flex-shrink-0 rounded-lg overflow-hidden bg-gray-700 flex items-center justify-center">
+                {record.thumbnail ? (
+                  <Image
+                    src={record.thumbnail}
+                    alt={t("history.thumbnail")}
+                    width={48}
+                    height={48}
+                    className="w-full h-full object-cover"
+                    unoptimized
+                  />
+                ) : (
+                  <ImageIcon className="w-6 h-6 text-gray-500" />
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-xs text-gray-400">{new Date(record.createdAt).toLocaleString(locale)}</p>
+                <p className="text-sm text-gray-100 truncate">{record.result.text || t("history.noText")}</p>
+              </div>
+              <OutcomeIcon outcome={getScanOutcome(record.result)} />
+            </button>
+            {onToggleCompare && (
+              <button
+                onClick={() => onToggleCompare(record)}
+                aria-label={t("compare.add")}
+                aria-pressed={comparedIds.includes(record.id)}
+                className={`p-2 transition-colors ${
+                  comparedIds.includes(record.id) ? "text-blue-400" : "text-gray-400 hover:text-blue-400"
+                }`}
+              >
+                <GitCompare className="w-5 h-5" />
+              </button>
+            )}
+            <button
+              onClick={() => handleDelete(record.id)}
+              aria-label={t("a11y.deleteScan")}
+              className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+            >
+              <Trash2 className="w-5 h-5" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { createContext, useCallback, useEffect, useMemo, useState } from "react";
+import {
+  DEFAULT_LOCALE,
+  LABEL_LANGUAGE_STORAGE_KEY,
+  LOCALE_STORAGE_KEY,
+  LabelLanguage,
+  Locale,
+  Translate,
+  createTranslator,
+  getDirection,
+  isLabelLanguage,
+  isLocale,
+  matchLocale,
+} from "@/lib/i18n";
+
+export interface I18nContextValue {
+  locale: Locale;
+  t: Translate;
+  setLocale: (locale: Locale) => void;
+  // The language printed on the label, sent to the server as an OCR hint.
+  labelLanguage: LabelLanguage;
+  setLabelLanguage: (language: LabelLanguage) => void;
+}
+
+export const I18nContext = createContext<I18nContextValue | null>(null);
+
+function applyLocale(locale: Locale) {
+  document.documentElement.lang = locale;
+  document.documentElement.dir = getDirection(locale);
+}
+
+// The locale is resolved here rather than on the server, so pages can be pre-rendered once for everyone.
+export default function I18nProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+  const [labelLanguage, setLabelLanguageState] = useState<LabelLanguage>("auto");
+
+  useEffect(() => {
+    // The user's explicit choice, else what their browser asks for.
+    const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+    const resolved = isLocale(stored) ? stored : matchLocale(navigator.languages.join(","));
+    applyLocale(resolved);
+    setLocaleState(resolved);
+
+    const storedLabel = localStorage.getItem(LABEL_LANGUAGE_STORAGE_KEY);
+    if (isLabelLanguage(storedLabel)) setLabelLanguageState(storedLabel);
+  }, []);
+
+  const setLocale = useCallback((next: Locale) => {
+    localStorage.setItem(LOCALE_STORAGE_KEY, next);
+    applyLocale(next);
+    setLocaleState(next);
+  }, []);
+
+  const setLabelLanguage = useCallback((next: LabelLanguage) => {
+    localStorage.setItem(LABEL_LANGUAGE_STORAGE_KEY, next);
+    setLabelLanguageState(next);
+  }, []);
+
+  const value = useMemo(
+    () => ({ locale, t: createTranslator(locale), setLocale, labelLanguage, setLabelLanguage }),
+    [locale, setLocale, labelLanguage, setLabelLanguage]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import VerdictIcon from "@/components/VerdictIcon";
+import { useI18n } from "@/hooks/useI18n";
+import { LOCALES, LOCALE_NAMES, MessageKey, categoryLabel } from "@/lib/i18n";
+import { KnowledgeEntry, localizedName } from "@/lib/knowledge";
+
+const VERDICT_LABELS: Record<"no" | "uncertain", MessageKey> = { no: "speech.no", uncertain: "analysis.uncertain" };
+
+export default function IngredientDetails({ entry }: { entry: KnowledgeEntry }) {
+  const { t, locale } = useI18n();
+  const affected = Object.entries(entry.categories);
+
+  return (
+    <>
+      <Link href="/ingredients" className="inline-flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700">
+        <ArrowLeft className="w-4 h-4 rtl:rotate-180" />
+        <span>{t("ingredients.all")}</span>
+      </Link>
+
+      <div>
+        {entry.eNumber && <p className="text-sm font-mono text-gray-500">{entry.eNumber}</p>}
+        <h1 className="text-2xl font-bold text-gray-800">{localizedName(entry, locale)}</h1>
+        <p className="mt-2 text-gray-700">{entry.description}</p>
+      </div>
+
+      <div className="bg-white p-4 rounded-xl shadow-sm">
+        <p className="text-gray-600 text-sm">{t("ingredients.origin")}</p>
+        <p className="font-medium text-gray-800">{t(`ingredients.origin.${entry.origin}`)}</p>
+      </div>
+
+      <div className="bg-white p-4 rounded-xl shadow-sm">
+        <p className="text-gray-600 text-sm mb-2">{t("ingredients.affects")}</p>
+        {affected.length > 0 ? (
+          <ul className="space-y-2">
+            {affected.map(([category, verdict]) => (
+              <li key={category} className="flex items-center space-x-2 text-gray-800">
+                <VerdictIcon verdict={verdict} />
+                <span className="font-medium">{categoryLabel(t, category)}</span>
+                <span className="sr-only">{t(VERDICT_LABELS[verdict])}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-700">{t("ingredients.affectsNone")}</p>
+        )}
+      </div>
+
+      <div className="bg-white p-4 rounded-xl shadow-sm">
+        <p className="text-gray-600 text-sm mb-2">{t("ingredients.synonyms")}</p>
+        <dl className="space-y-1 text-sm">
+          {LOCALES.filter((language) => entry.synonyms[language]?.length).map((language) => (
+            <div key={language} className="flex space-x-2">
+              <dt className="w-20 flex-shrink-0 text-gray-500">{LOCALE_NAMES[language]}</dt>
+              <dd lang={language} dir="auto" className="text-gray-800">{entry.synonyms[language]?.join(", ")}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+
+      <Link
+        href="/"
+        className="block w-full text-center bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg transition-colors font-medium"
+      >
+        {t("ingredients.scan")}
+      </Link>
+    </>
+  );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { Search } from "lucide-react";
+import { useI18n } from "@/hooks/useI18n";
+import { KNOWLEDGE_BASE_VERSION, localizedName, searchEntries } from "@/lib/knowledge";
+
+// The searchable index of the bundled knowledge base; filtering happens on the device.
+export default function IngredientGuide() {
+  const { t, locale } = useI18n();
+  const [query, setQuery] = useState("");
+  const entries = useMemo(() => searchEntries(query), [query]);
+
+  return (
+    <>
+      <div>
+        <h1 className="text-2xl font-bold text-gray-800">{t("ingredients.title")}</h1>
+        <p className="mt-1 text-sm text-gray-600">{t("ingredients.intro")}</p>
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex items-center bg-white rounded-lg px-3 shadow-sm">
+          <Search className="w-4 h-4 text-gray-400" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t("ingredients.search")}
+            aria-label={t("ingredients.search")}
+            className="flex-1 bg-transparent px-2 py-2 text-sm text-gray-800 outline-none placeholder-gray-400"
+          />
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="text-center text-gray-500 text-sm py-6">{t("ingredients.noMatches")}</p>
+        ) : (
+          <ul className="space-y-2">
+            {entries.map((entry) => (
+              <li key={entry.slug}>
+                <Link
+                  href={`/ingredients/${entry.slug}`}
+                  className="flex items-center justify-between bg-white hover:bg-gray-50 rounded-xl p-3 shadow-sm transition-colors"
+                >
+                  <span className="min-w-0">
+                    <span className="block font-medium text-gray-800 truncate">{localizedName(entry, locale)}</span>
+                    <span className="block text-xs text-gray-500">{t(`ingredients.origin.${entry.origin}`)}</span>
+                  </span>
+                  {entry.eNumber && <span className="ms-3 text-sm font-mono text-gray-500">{entry.eNumber}</span>}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500 text-center">{t("ingredients.version", { version: KNOWLEDGE_BASE_VERSION })}</p>
+
+      <Link
+        href="/"
+        className="block w-full text-center bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg transition-colors font-medium"
+      >
+        {t("ingredients.scan")}
+      </Link>
+    </>
+  );
+}
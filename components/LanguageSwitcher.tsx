@@ -0,0 +1,50 @@
+"use client";
+
+import { Languages, ScanText } from "lucide-react";
+import { useI18n } from "@/hooks/useI18n";
+import { LABEL_LANGUAGES, LABEL_LANGUAGE_NAMES, LOCALES, LOCALE_NAMES, isLabelLanguage, isLocale } from "@/lib/i18n";
+
+const selectClass =
+  "flex-1 min-w-0 bg-gray-800 border border-gray-700 text-gray-100 text-sm rounded-lg px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export default function LanguageSwitcher({ className = "" }: { className?: string }) {
+  const { t, locale, setLocale, labelLanguage, setLabelLanguage } = useI18n();
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <label className="flex items-center space-x-3 text-gray-300">
+        <Languages className="w-5 h-5 flex-shrink-0 text-gray-400" />
+        <span className="w-32 text-sm">{t("language.app")}</span>
+        <select
+          value={locale}
+          onChange={(e) => isLocale(e.target.value) && setLocale(e.target.value)}
+          className={selectClass}
+        >
+          {LOCALES.map((value) => (
+            <option key={value} value={value} lang={value}>
+              {LOCALE_NAMES[value]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div>
+        <label className="flex items-center space-x-3 text-gray-300">
+          <ScanText className="w-5 h-5 flex-shrink-0 text-gray-400" />
+          <span className="w-32 text-sm">{t("language.label")}</span>
+          <select
+            value={labelLanguage}
+            onChange={(e) => isLabelLanguage(e.target.value) && setLabelLanguage(e.target.value)}
+            className={selectClass}
+          >
+            {LABEL_LANGUAGES.map((value) => (
+              <option key={value} value={value} lang={value === "auto" ? undefined : value}>
+                {value === "auto" ? t("language.auto") : LABEL_LANGUAGE_NAMES[value]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <p className="mt-1 ms-8 text-xs text-gray-500">{t("language.labelHint")}</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { CloudUpload, CheckCircle, AlertTriangle, X } from "lucide-react";
+import type { OutboxStatus as OutboxStatusState } from "@/hooks/useOutbox";
+import { useI18n } from "@/hooks/useI18n";
+
+interface OutboxStatusProps {
+  status: OutboxStatusState;
+  onRetry: () => void;
+  onView: () => void;
+  onDismiss: () => void;
+}
+
+export default function OutboxStatus({ status, onRetry, onView, onDismiss }: OutboxStatusProps) {
+  const { t } = useI18n();
+  const { pending, sending, completed, failed } = status;
+  if (pending === 0 && completed === 0 && failed === 0) return null;
+
+  const finished = pending === 0;
+  const analyzed = completed === 1 ? t("outbox.analyzedOne") : t("outbox.analyzed", { count: completed });
+  const notAnalyzed = t("outbox.failed", { count: failed });
+  const tone = finished
+    ? (failed > 0 ? "bg-red-100 border-red-400 text-red-700" : "bg-green-100 border-green-400 text-green-700")
+    : "bg-amber-100 border-amber-400 text-amber-800";
+
+  return (
+    <div role="status" className={`fixed top-4 left-1/2 transform -translate-x-1/2 border px-4 py-3 rounded flex items-center space-x-3 z-50 ${tone}`}>
+      {!finished ? (
+        sending ? (
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-amber-800"></div>
+        ) : (
+          <CloudUpload className="w-4 h-4" />
+        )
+      ) : failed > 0 ? (
+        <AlertTriangle className="w-4 h-4" />
+      ) : (
+        <CheckCircle className="w-4 h-4" />
+      )}
+      <span className="block sm:inline text-sm">
+        {!finished && (pending === 1 ? t("outbox.waitingOne") : t("outbox.waiting", { count: pending }))}
+        {finished && completed > 0 && failed > 0 && t("outbox.both", { analyzed, failed: notAnalyzed })}
+        {finished && completed > 0 && failed === 0 && analyzed}
+        {finished && completed === 0 && failed > 0 && notAnalyzed}
+      </span>
+      {!finished && !sending && (
+        <button onClick={onRetry} className="text-sm font-medium underline">
+          {t("outbox.retry")}
+        </button>
+      )}
+      {finished && completed > 0 && (
+        <button onClick={onView} className="text-sm font-medium underline">
+          {t("outbox.view")}
+        </button>
+      )}
+      {finished && (
+        <button onClick={onDismiss} aria-label={t("a11y.dismiss")} className="hover:opacity-70">
+          <X className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+}
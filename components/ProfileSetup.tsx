@@ -0,0 +1,111 @@
+"use client";
+
+import { useState } from "react";
+import { Check } from "lucide-react";
+import { ALLERGENS, DIET_OPTIONS, DietaryProfile } from "@/lib/profile";
+import { useI18n } from "@/hooks/useI18n";
+import { allergenLabel, categoryLabel } from "@/lib/i18n";
+import LanguageSwitcher from "@/components/LanguageSwitcher";
+import AccessibilitySettings from "@/components/AccessibilitySettings";
+
+interface ProfileSetupProps {
+  initialProfile: DietaryProfile;
+  onSave: (profile: DietaryProfile) => void;
+  // Omitted on first run, when there is no saved profile to fall back to.
+  onCancel?: () => void;
+}
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter((item) => item !== value) : [...values, value];
+
+function OptionChip({ label, selected, onClick }: { label: string; selected: boolean; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      aria-pressed={selected}
+      className={`px-3 py-1.5 rounded-full text-sm capitalize transition-colors border ${
+        selected ? "bg-blue-600 border-blue-500 text-white" : "bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700"
+      }`}
+    >
+      {label}
+    </button>
+  );
+}
+
+export default function ProfileSetup({ initialProfile, onSave, onCancel }: ProfileSetupProps) {
+  const { t } = useI18n();
+  const [diets, setDiets] = useState(initialProfile.diets);
+  const [allergens, setAllergens] = useState(initialProfile.allergens);
+  const [hideOtherCategories, setHideOtherCategories] = useState(initialProfile.hideOtherCategories);
+
+  return (
+    <div 
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="profile-title"
+      className="absolute inset-0 flex flex-col items-center justify-center z-30"
+      style={{
+        background: "rgba(0, 0, 0, 0.85)",
+        backdropFilter: "blur(10px)"
+      }}
+    >
+      <div className="max-w-md max-h-[90vh] overflow-y-auto p-6 bg-gray-900 rounded-xl border border-gray-700 mx-4">
+        <h2 id="profile-title" className="text-2xl font-semibold text-white mb-2">{t("profile.title")}</h2>
+        <p className="text-gray-400 leading-relaxed mb-6">{t("profile.intro")}</p>
+
+        <h3 className="text-lg font-medium text-gray-100 mb-3">{t("profile.diet")}</h3>
+        <div className="flex flex-wrap gap-2 mb-6">
+          {DIET_OPTIONS.map((diet) => (
+            <OptionChip
+              key={diet}
+              label={categoryLabel(t, diet)}
+              selected={diets.includes(diet)}
+              onClick={() => setDiets(toggle(diets, diet))}
+            />
+          ))}
+        </div>
+
+        <h3 className="text-lg font-medium text-gray-100 mb-3">{t("profile.allergies")}</h3>
+        <div className="flex flex-wrap gap-2 mb-6">
+          {Object.keys(ALLERGENS).map((allergen) => (
+            <OptionChip
+              key={allergen}
+              label={allergenLabel(t, allergen)}
+              selected={allergens.includes(allergen)}
+              onClick={() => setAllergens(toggle(allergens, allergen))}
+            />
+          ))}
+        </div>
+
+        <label className="flex items-center space-x-3 text-gray-300 mb-6 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={hideOtherCategories}
+            onChange={(e) => setHideOtherCategories(e.target.checked)}
+            className="w-4 h-4 accent-blue-600"
+          />
+          <span>{t("profile.hideOthers")}</span>
+        </label>
+
+        <LanguageSwitcher className="mb-6" />
+        <AccessibilitySettings className="mb-6" />
+
+        <button
+          onClick={() => onSave({ diets, allergens, hideOtherCategories })}
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg transition-colors font-medium flex items-center justify-center space-x-2"
+        >
+          <span>{t("profile.save")}</span>
+          <Check className="w-5 h-5" />
+        </button>
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="w-full mt-3 bg-gray-800 hover:bg-gray-700 text-gray-300 px-6 py-3 rounded-lg transition-colors font-medium"
+          >
+            {t("profile.cancel")}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
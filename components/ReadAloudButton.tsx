@@ -0,0 +1,43 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Volume2, VolumeX } from "lucide-react";
+import { useI18n } from "@/hooks/useI18n";
+import { isSpeechAvailable, speak, stopSpeaking } from "@/lib/speech";
+
+// Reads `text` aloud, or stops it again. Renders nothing where the browser can't speak.
+export default function ReadAloudButton({ text }: { text: string }) {
+  const { t, locale } = useI18n();
+  const [available, setAvailable] = useState(false);
+  const [speaking, setSpeaking] = useState(false);
+
+  useEffect(() => {
+    setAvailable(isSpeechAvailable());
+    return () => stopSpeaking();
+  }, []);
+
+  if (!available) return null;
+
+  const toggle = () => {
+    if (speaking) {
+      stopSpeaking();
+      setSpeaking(false);
+      return;
+    }
+    const utterance = speak(text, locale);
+    if (!utterance) return;
+    setSpeaking(true);
+    utterance.onend = utterance.onerror = () => setSpeaking(false);
+  };
+
+  return (
+    <button
+      onClick={toggle}
+      aria-pressed={speaking}
+      className="w-full flex items-center justify-center space-x-2 bg-white hover:bg-gray-50 text-gray-800 px-3 py-2.5 rounded-lg shadow-sm transition-colors text-sm font-medium"
+    >
+      {speaking ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+      <span>{speaking ? t("speech.stop") : t("speech.readAloud")}</span>
+    </button>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import { useState } from "react";
+import { Send } from "lucide-react";
+import type { AnalysisResult, Verdict } from "@/lib/analysis";
+import type { ReportDraft, ReportTarget } from "@/lib/reports";
+import { useI18n } from "@/hooks/useI18n";
+import { categoryLabel } from "@/lib/i18n";
+
+const VERDICTS: Verdict[] = ["yes", "no", "uncertain"];
+
+interface ReportDialogProps {
+  result: AnalysisResult;
+  target: ReportTarget;
+  // The photo behind the result, when there is one; it is only attached if the user agrees.
+  image: Blob | null;
+  onSubmit: (draft: ReportDraft) => void;
+  onCancel: () => void;
+}
+
+export default function ReportDialog({ result, target, image, onSubmit, onCancel }: ReportDialogProps) {
+  const { t } = useI18n();
+  const current = target.kind === "category" ? result.classification[target.category]?.verdict : undefined;
+  const [verdict, setVerdict] = useState<Verdict | null>(null);
+  const [text, setText] = useState(result.text ?? "");
+  const [note, setNote] = useState("");
+  const [includeImage, setIncludeImage] = useState(false);
+
+  const corrected = target.kind === "category" ? verdict !== null : text.trim() !== "" && text !== result.text;
+
+  const submit = () => {
+    if (!corrected) return;
+    onSubmit({
+      correction:
+        target.kind === "category" && verdict
+          ? { kind: "category", category: target.category, verdict }
+          : { kind: "text", text },
+      note,
+      result,
+      image: includeImage && image ? image : undefined,
+    });
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="report-title"
+      className="absolute inset-0 flex flex-col items-center justify-center z-30"
+      style={{
+        background: "rgba(0, 0, 0, 0.85)",
+        backdropFilter: "blur(10px)"
+      }}
+    >
+      <div className="w-full max-w-md max-h-[90vh] overflow-y-auto p-6 bg-gray-900 rounded-xl border border-gray-700 mx-4">
+        <h2 id="report-title" className="text-xl font-semibold text-white mb-4">
+          {target.kind === "category"
+            ? t("report.categoryTitle", { category: categoryLabel(t, target.category) })
+            : t("report.textTitle")}
+        </h2>
+
+        {target.kind === "category" ? (
+          <fieldset className="mb-4">
+            <legend className="text-sm font-medium text-gray-300 mb-2">{t("report.expected")}</legend>
+            <div className="space-y-2">
+              {VERDICTS.map((option) => (
+                <label
+                  key={option}
+                  className={`flex items-center space-x-3 text-gray-200 ${option === current ? "opacity-50" : "cursor-pointer"}`}
+                >
+                  <input
+                    type="radio"
+                    name="verdict"
+                    value={option}
+                    checked={verdict === option}
+                    disabled={option === current}
+                    onChange={() => setVerdict(option)}
+                    className="w-4 h-4 accent-blue-600"
+                  />
+                  <span>
+                    {option === current
+                      ? t("report.current", { verdict: t(`report.verdict.${option}`) })
+                      : t(`report.verdict.${option}`)}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        ) : (
+          <label className="block mb-4">
+            <span className="block text-sm font-medium text-gray-300 mb-2">{t("report.correctedText")}</span>
+            <textarea
+              value={text}
+              dir="auto"
+              onChange={(e) => setText(e.target.value)}
+              rows={6}
+              className="w-full p-2 text-sm text-gray-100 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-400"
+            />
+          </label>
+        )}
+
+        <label className="block mb-4">
+          <span className="block text-sm font-medium text-gray-300 mb-2">{t("report.note")}</span>
+          <textarea
+            value={note}
+            dir="auto"
+            onChange={(e) => setNote(e.target.value)}
+            rows={3}
+            className="w-full p-2 text-sm text-gray-100 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-400"
+          />
+        </label>
+
+        {image && (
+          <div className="mb-6">
+            <label className="flex items-center space-x-3 text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={includeImage}
+                onChange={(e) => setIncludeImage(e.target.checked)}
+                className="w-4 h-4 accent-blue-600"
+              />
+              <span>{t("report.includeImage")}</span>
+            </label>
+            <p className="mt-1 ms-7 text-xs text-gray-500">{t("report.imageHint")}</p>
+          </div>
+        )}
+
+        <div className="flex space-x-2">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-3 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg transition-colors font-medium"
+          >
+            {t("report.cancel")}
+          </button>
+          <button
+            onClick={submit}
+            disabled={!corrected}
+            className="flex-1 flex items-center justify-center space-x-2 px-4 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors font-medium disabled:opacity-60"
+          >
+            <Send className="w-4 h-4" />
+            <span>{t("report.submit")}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
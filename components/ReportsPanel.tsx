@@ -0,0 +1,64 @@
+"use client";
+
+import { X, Clock, CheckCircle, XCircle, Image as ImageIcon } from "lucide-react";
+import { useI18n } from "@/hooks/useI18n";
+import { categoryLabel } from "@/lib/i18n";
+import type { CorrectionReport, ReportStatus } from "@/lib/reports";
+
+function StatusIcon({ status }: { status: ReportStatus }) {
+  if (status === "sent") return <CheckCircle className="w-5 h-5 text-green-400" />;
+  if (status === "failed") return <XCircle className="w-5 h-5 text-red-400" />;
+  return <Clock className="w-5 h-5 text-amber-400" />;
+}
+
+interface ReportsPanelProps {
+  reports: CorrectionReport[];
+  onClose: () => void;
+}
+
+export default function ReportsPanel({ reports, onClose }: ReportsPanelProps) {
+  const { locale, t } = useI18n();
+
+  return (
+    <div role="dialog" aria-modal="true" aria-labelledby="reports-title" className="absolute inset-0 z-20 flex flex-col bg-gray-900 text-white">
+      <div className="flex items-center justify-between px-6 pt-6 pb-4">
+        <h2 id="reports-title" className="text-2xl font-semibold">{t("report.listTitle")}</h2>
+        <button onClick={onClose} aria-label={t("a11y.dismiss")} className="p-2 hover:bg-gray-800 rounded-full transition-colors">
+          <X className="w-6 h-6 text-gray-300" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 pb-6 space-y-3">
+        {reports.length === 0 && <p className="text-center text-gray-400 text-sm py-10">{t("report.empty")}</p>}
+        {reports.map(({ id, createdAt, correction, note, status, imageIncluded }) => (
+          <div key={id} className="bg-gray-800 rounded-xl p-3">
+            <div className="flex items-start justify-between space-x-3">
+              <div className="min-w-0">
+                <p className="text-xs text-gray-400">{new Date(createdAt).toLocaleString(locale)}</p>
+                <p className="text-sm font-medium text-gray-100">
+                  {correction.kind === "category"
+                    ? `${categoryLabel(t, correction.category)}: ${t(`report.verdict.${correction.verdict}`)}`
+                    : t("report.textTarget")}
+                </p>
+              </div>
+              <span className="flex items-center space-x-1 flex-shrink-0 text-xs text-gray-300">
+                <StatusIcon status={status} />
+                <span>{t(`report.status.${status}`)}</span>
+              </span>
+            </div>
+            {correction.kind === "text" && (
+              <p dir="auto" className="mt-1 text-sm text-gray-300 line-clamp-2">{correction.text}</p>
+            )}
+            {note && <p dir="auto" className="mt-1 text-sm text-gray-400 italic">{note}</p>}
+            {imageIncluded && (
+              <p className="mt-1 flex items-center space-x-1 text-xs text-gray-500">
+                <ImageIcon className="w-3.5 h-3.5" />
+                <span>{t("report.withImage")}</span>
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
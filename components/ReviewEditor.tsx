@@ -0,0 +1,295 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { AlertTriangle, Check, Crop, RotateCw, Scan, RefreshCcw } from "lucide-react";
+import {
+  FULL_RECT,
+  Point,
+  Quad,
+  Rect,
+  RectCorner,
+  getQuadOutputSize,
+  movePoint,
+  moveRect,
+  rectToQuad,
+  resizeRect,
+  scaleQuad,
+  warpPerspective,
+} from "@/lib/geometry";
+import { useI18n } from "@/hooks/useI18n";
+
+// Matches the preprocessing downscale, so editing never works on more pixels than we'll send.
+const MAX_WORKING_DIMENSION = 2048;
+
+type EditMode = "crop" | "perspective";
+
+type DragTarget =
+  | { kind: "move"; start: Point; rect: Rect }
+  | { kind: "corner"; corner: RectCorner }
+  | { kind: "point"; index: number };
+
+const RECT_CORNERS: RectCorner[] = ["topLeft", "topRight", "bottomRight", "bottomLeft"];
+
+interface ReviewEditorProps {
+  source: Blob;
+  // Shown above the image, e.g. when the capture looked blurry.
+  warning?: string;
+  onConfirm: (image: Blob) => void;
+  onRetake: () => void;
+}
+
+// Draws the upright source rotated clockwise by `quarterTurns`, downscaled to the working size.
+async function renderWorkingCanvas(source: Blob, quarterTurns: number): Promise<HTMLCanvasElement> {
+  const bitmap = await createImageBitmap(source, { imageOrientation: "from-image" });
+  const scale = Math.min(1, MAX_WORKING_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+  const sideways = quarterTurns % 2 === 1;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = sideways ? height : width;
+  canvas.height = sideways ? width : height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((quarterTurns * Math.PI) / 2);
+  ctx.drawImage(bitmap, -width / 2, -height / 2, width, height);
+  bitmap.close();
+  return canvas;
+}
+
+function renderSelection(working: HTMLCanvasElement, mode: EditMode, rect: Rect, quad: Quad): HTMLCanvasElement {
+  const output = document.createElement("canvas");
+  const ctx = output.getContext("2d");
+  const workingCtx = working.getContext("2d");
+  if (!ctx || !workingCtx) throw new Error("Canvas 2D context unavailable");
+
+  if (mode === "crop") {
+    const sx = Math.round(rect.x * working.width);
+    const sy = Math.round(rect.y * working.height);
+    output.width = Math.max(1, Math.round(rect.width * working.width));
+    output.height = Math.max(1, Math.round(rect.height * working.height));
+    ctx.drawImage(working, sx, sy, output.width, output.height, 0, 0, output.width, output.height);
+    return output;
+  }
+
+  const pixelQuad = scaleQuad(quad, working.width, working.height);
+  const { width, height } = getQuadOutputSize(pixelQuad);
+  output.width = width;
+  output.height = height;
+  const source = workingCtx.getImageData(0, 0, working.width, working.height);
+  const warped = warpPerspective(source.data, working.width, working.height, pixelQuad, width, height);
+  ctx.putImageData(new ImageData(warped, width, height), 0, 0);
+  return output;
+}
+
+export default function ReviewEditor({ source, warning, onConfirm, onRetake }: ReviewEditorProps) {
+  const { t } = useI18n();
+  const [quarterTurns, setQuarterTurns] = useState(0);
+  const [working, setWorking] = useState<HTMLCanvasElement | null>(null);
+  const [mode, setMode] = useState<EditMode>("crop");
+  const [rect, setRect] = useState<Rect>(FULL_RECT);
+  const [quad, setQuad] = useState<Quad>(rectToQuad(FULL_RECT));
+  const [displaySize, setDisplaySize] = useState<{ width: number; height: number } | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<DragTarget | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    renderWorkingCanvas(source, quarterTurns)
+      .then((canvas) => {
+        if (cancelled) return;
+        setWorking(canvas);
+        setRect(FULL_RECT);
+        setQuad(rectToQuad(FULL_RECT));
+      })
+      .catch((error) => console.error("Failed to load image for review", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [source, quarterTurns]);
+
+  // Fit the image into the available space, keeping its aspect ratio.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !working) return;
+    const fit = () => {
+      const scale = Math.min(container.clientWidth / working.width, container.clientHeight / working.height);
+      setDisplaySize({ width: working.width * scale, height: working.height * scale });
+    };
+    fit();
+    const observer = new ResizeObserver(fit);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [working]);
+
+  useEffect(() => {
+    const preview = previewRef.current;
+    if (!preview || !working) return;
+    preview.width = working.width;
+    preview.height = working.height;
+    preview.getContext("2d")?.drawImage(working, 0, 0);
+  }, [working, displaySize]);
+
+  const toNormalized = useCallback((e: React.PointerEvent): Point => {
+    const bounds = frameRef.current?.getBoundingClientRect();
+    if (!bounds) return { x: 0, y: 0 };
+    return { x: (e.clientX - bounds.left) / bounds.width, y: (e.clientY - bounds.top) / bounds.height };
+  }, []);
+
+  const startDrag = (target: DragTarget) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    (e.target as Element).setPointerCapture(e.pointerId);
+    dragRef.current = target;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = toNormalized(e);
+    if (drag.kind === "move") {
+      setRect(moveRect(drag.rect, point.x - drag.start.x, point.y - drag.start.y));
+    } else if (drag.kind === "corner") {
+      setRect((current) => resizeRect(current, drag.corner, point));
+    } else {
+      setQuad((current) => movePoint(current, drag.index, point));
+    }
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const switchMode = (next: EditMode) => {
+    // Carry the current crop over as the starting quadrilateral, so modes build on each other.
+    if (next === "perspective" && mode === "crop") setQuad(rectToQuad(rect));
+    setMode(next);
+  };
+
+  const confirm = async () => {
+    if (!working) return;
+    setExporting(true);
+    try {
+      const output = renderSelection(working, mode, rect, quad);
+      const blob = await new Promise<Blob | null>((resolve) => output.toBlob(resolve, "image/jpeg", 0.95));
+      if (blob) onConfirm(blob);
+    } catch (error) {
+      console.error("Failed to export selection", error);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleClass = "absolute w-6 h-6 -ml-3 -mt-3 rounded-full bg-white border-2 border-blue-500 shadow touch-none";
+  const points = mode === "crop" ? rectToQuad(rect) : quad;
+
+  return (
+    <div role="dialog" aria-modal="true" aria-label={t("review.title")} className="absolute inset-0 z-20 flex flex-col bg-black">
+      {warning && (
+        <div role="alert" className="absolute top-4 left-4 right-4 z-10 flex items-start space-x-2 p-3 bg-amber-100 text-amber-900 text-sm rounded-xl shadow">
+          <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+          <span>{warning}</span>
+        </div>
+      )}
+      <div ref={containerRef} className="relative flex-1 m-4 mt-16 flex items-center justify-center">
+        {working && displaySize ? (
+          <div
+            ref={frameRef}
+            className="relative select-none touch-none"
+            style={{ width: displaySize.width, height: displaySize.height }}
+            onPointerMove={handlePointerMove}
+            onPointerUp={endDrag}
+            onPointerCancel={endDrag}
+          >
+            <canvas ref={previewRef} aria-hidden className="absolute inset-0 w-full h-full" />
+            <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1 1" preserveAspectRatio="none">
+              <path
+                fillRule="evenodd"
+                fill="rgba(0, 0, 0, 0.55)"
+                d={`M0 0H1V1H0Z M${points.map(({ x, y }) => `${x} ${y}`).join(" L")} Z`}
+              />
+              <polygon
+                points={points.map(({ x, y }) => `${x},${y}`).join(" ")}
+                fill="none"
+                stroke="white"
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+              />
+            </svg>
+            {mode === "crop" && (
+              <div
+                className="absolute cursor-move touch-none"
+                style={{
+                  left: `${rect.x * 100}%`,
+                  top: `${rect.y * 100}%`,
+                  width: `${rect.width * 100}%`,
+                  height: `${rect.height * 100}%`,
+                }}
+                onPointerDown={(e) => startDrag({ kind: "move", start: toNormalized(e), rect })(e)}
+              />
+            )}
+            {points.map(({ x, y }, index) => (
+              <div
+                key={index}
+                className={handleClass}
+                style={{ left: `${x * 100}%`, top: `${y * 100}%` }}
+                onPointerDown={startDrag(
+                  mode === "crop" ? { kind: "corner", corner: RECT_CORNERS[index] } : { kind: "point", index }
+                )}
+              />
+            ))}
+          </div>
+        ) : (
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
+        )}
+      </div>
+
+      <div className="flex justify-center space-x-2 mb-4">
+        <button
+          onClick={() => switchMode("crop")}
+          aria-pressed={mode === "crop"}
+          className={`flex items-center space-x-2 px-4 py-2 rounded-full text-sm ${mode === "crop" ? "bg-white text-black" : "bg-gray-800 text-white"}`}
+        >
+          <Crop className="w-4 h-4" />
+          <span>{t("review.crop")}</span>
+        </button>
+        <button
+          onClick={() => switchMode("perspective")}
+          aria-pressed={mode === "perspective"}
+          className={`flex items-center space-x-2 px-4 py-2 rounded-full text-sm ${mode === "perspective" ? "bg-white text-black" : "bg-gray-800 text-white"}`}
+        >
+          <Scan className="w-4 h-4" />
+          <span>{t("review.perspective")}</span>
+        </button>
+        <button
+          onClick={() => setQuarterTurns((turns) => (turns + 1) % 4)}
+          className="flex items-center space-x-2 px-4 py-2 rounded-full text-sm bg-gray-800 text-white"
+        >
+          <RotateCw className="w-4 h-4" />
+          <span>{t("review.rotate")}</span>
+        </button>
+      </div>
+
+      <div className="flex space-x-3 px-6 pb-8">
+        <button
+          onClick={onRetake}
+          className="flex-1 flex items-center justify-center space-x-2 bg-gray-800 hover:bg-gray-700 text-white px-6 py-3 rounded-lg transition-colors font-medium"
+        >
+          <RefreshCcw className="w-5 h-5" />
+          <span>{t("review.retake")}</span>
+        </button>
+        <button
+          onClick={confirm}
+          disabled={!working || exporting}
+          className="flex-1 flex items-center justify-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg transition-colors font-medium disabled:opacity-60"
+        >
+          <span>{t("review.use")}</span>
+          <Check className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+}
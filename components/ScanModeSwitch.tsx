@@ -0,0 +1,42 @@
+"use client";
+
+import { ScanText, ScanBarcode } from "lucide-react";
+import { useI18n } from "@/hooks/useI18n";
+import type { MessageKey } from "@/lib/i18n";
+
+export type ScanMode = "label" | "barcode";
+
+const MODES: { value: ScanMode; label: MessageKey; Icon: typeof ScanText }[] = [
+  { value: "label", label: "scanMode.label", Icon: ScanText },
+  { value: "barcode", label: "scanMode.barcode", Icon: ScanBarcode },
+];
+
+export default function ScanModeSwitch({ mode, onChange }: { mode: ScanMode; onChange: (mode: ScanMode) => void }) {
+  const { t } = useI18n();
+
+  return (
+    <div
+      role="group"
+      className="absolute top-24 start-6 z-10 flex p-1 rounded-full shadow-md"
+      style={{
+        background: "rgba(255, 255, 255, 0.2)",
+        backdropFilter: "blur(10px)",
+        border: "1px solid rgba(255, 255, 255, 0.3)",
+      }}
+    >
+      {MODES.map(({ value, label, Icon }) => (
+        <button
+          key={value}
+          onClick={() => onChange(value)}
+          aria-pressed={mode === value}
+          className={`flex items-center space-x-1 px-3 py-1 rounded-full text-xs transition-colors ${
+            mode === value ? "bg-white text-black" : "text-white"
+          }`}
+        >
+          <Icon className="w-4 h-4" />
+          <span>{t(label)}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+"use client";
+
+import { useEffect } from "react";
+
+// Registers public/sw.js in production builds; in development it would serve stale bundles.
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+    navigator.serviceWorker.register("/sw.js").catch((error) => {
+      console.error("Service worker registration failed", error);
+    });
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Share2, Link as LinkIcon, ImageDown, FileDown, Check } from "lucide-react";
+import type { AnalysisResult } from "@/lib/analysis";
+import { encodeSharedResult, sharedResultPath, summarizeResult } from "@/lib/share";
+import { canvasToBlob, canvasToPdf, drawResultCard } from "@/lib/result-card";
+import { downloadBlob } from "@/lib/download";
+import { useI18n } from "@/hooks/useI18n";
+
+interface ShareActionsProps {
+  result: AnalysisResult;
+  title: string;
+}
+
+const buttonClass =
+  "flex-1 flex items-center justify-center space-x-2 bg-white hover:bg-gray-50 text-gray-800 px-3 py-2.5 rounded-lg shadow-sm transition-colors text-sm font-medium disabled:opacity-60";
+
+const fileBaseName = (title: string) =>
+  `clearbyte-${title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "result"}`;
+
+export default function ShareActions({ result, title }: ShareActionsProps) {
+  const { t } = useI18n();
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [tooLarge, setTooLarge] = useState(false);
+  // Decided after mount, since the result page is also rendered on the server.
+  const [canShare, setCanShare] = useState(false);
+
+  useEffect(() => {
+    setCanShare(typeof navigator.share === "function");
+  }, []);
+
+  const run = (action: () => Promise<void>) => async () => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      // Dismissing the share sheet rejects with AbortError; that's not a failure.
+      if (!(error instanceof DOMException && error.name === "AbortError")) console.error("Share action failed", error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const share = run(async () => {
+    const id = await encodeSharedResult(result);
+    setTooLarge(id === null);
+    if (!id) return;
+    const url = `${window.location.origin}${sharedResultPath(id)}`;
+    if (canShare) {
+      await navigator.share({ title: t("share.sheetTitle", { title }), text: summarizeResult(result, t), url });
+      return;
+    }
+    await navigator.clipboard.writeText(url);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  });
+
+  const exportPng = run(async () => {
+    downloadBlob(await canvasToBlob(drawResultCard(result, title, t), "image/png"), `${fileBaseName(title)}.png`);
+  });
+
+  const exportPdf = run(async () => {
+    downloadBlob(await canvasToPdf(drawResultCard(result, title, t)), `${fileBaseName(title)}.pdf`);
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex space-x-2">
+        <button onClick={share} disabled={busy} className={buttonClass}>
+          {copied ? <Check className="w-4 h-4" /> : canShare ? <Share2 className="w-4 h-4" /> : <LinkIcon className="w-4 h-4" />}
+          <span>{copied ? t("share.copied") : canShare ? t("share.share") : t("share.copyLink")}</span>
+        </button>
+        <button onClick={exportPng} disabled={busy} className={buttonClass}>
+          <ImageDown className="w-4 h-4" />
+          <span>PNG</span>
+        </button>
+        <button onClick={exportPdf} disabled={busy} className={buttonClass}>
+          <FileDown className="w-4 h-4" />
+          <span>PDF</span>
+        </button>
+      </div>
+      {tooLarge && <p role="alert" className="text-sm text-red-700">{t("share.tooLarge")}</p>}
+    </div>
+  );
+}
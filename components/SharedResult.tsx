@@ -0,0 +1,34 @@
+"use client";
+
+import Link from "next/link";
+import type { AnalysisResult } from "@/lib/analysis";
+import { resultTitle } from "@/lib/share";
+import { useI18n } from "@/hooks/useI18n";
+import AnalysisResults from "@/components/AnalysisResults";
+import ShareActions from "@/components/ShareActions";
+
+// The body of a shared result page, translated into the viewer's language rather than the sharer's.
+export default function SharedResult({ result }: { result: AnalysisResult }) {
+  const { t } = useI18n();
+  const title = resultTitle(result, t);
+
+  return (
+    <>
+      <div>
+        <p className="text-sm text-gray-500">{t("share.sharedResult")}</p>
+        <h1 className="text-2xl font-bold text-gray-800">{title}</h1>
+      </div>
+
+      <AnalysisResults result={result} />
+
+      <ShareActions result={result} title={title} />
+
+      <Link
+        href="/"
+        className="block w-full text-center bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg transition-colors font-medium"
+      >
+        {t("share.scanYourOwn")}
+      </Link>
+    </>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { Keyboard, X } from "lucide-react";
+import { useI18n } from "@/hooks/useI18n";
+
+export interface ShortcutDescription {
+  // Shown as key caps, e.g. ["Space"] or ["?"].
+  keys: string[];
+  label: string;
+}
+
+interface ShortcutsHelpProps {
+  shortcuts: ShortcutDescription[];
+  onClose: () => void;
+}
+
+export default function ShortcutsHelp({ shortcuts, onClose }: ShortcutsHelpProps) {
+  const { t } = useI18n();
+  const closeRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    closeRef.current?.focus();
+  }, []);
+
+  return (
+    <div
+      className="fixed inset-0 flex items-center justify-center z-40"
+      style={{
+        background: "rgba(0, 0, 0, 0.85)",
+        backdropFilter: "blur(10px)"
+      }}
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcuts-title"
+        className="max-w-md w-full p-6 bg-gray-900 rounded-xl border border-gray-700 mx-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 id="shortcuts-title" className="flex items-center space-x-2 text-2xl font-semibold text-white">
+            <Keyboard className="w-6 h-6" />
+            <span>{t("shortcuts.title")}</span>
+          </h2>
+          <button
+            ref={closeRef}
+            onClick={onClose}
+            aria-label={t("a11y.dismiss")}
+            className="p-2 hover:bg-gray-800 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-300" />
+          </button>
+        </div>
+        <dl className="space-y-2">
+          {shortcuts.map(({ keys, label }) => (
+            <div key={label} className="flex items-center justify-between space-x-4">
+              <dt className="flex space-x-1">
+                {keys.map((key) => (
+                  <kbd key={key} className="min-w-[28px] px-2 py-0.5 text-center text-sm font-mono text-white bg-gray-800 border border-gray-600 rounded">
+                    {key}
+                  </kbd>
+                ))}
+              </dt>
+              <dd className="text-gray-300 text-sm text-end">{label}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+}
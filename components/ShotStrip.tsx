@@ -0,0 +1,134 @@
+"use client";
+
+import { useRef, useState } from "react";
+import Image from "next/image";
+import { X, Trash2 } from "lucide-react";
+import { useI18n } from "@/hooks/useI18n";
+
+// Matches the per-request limit of /api/analyze.
+export const MAX_SHOTS = 6;
+
+export interface Shot {
+  id: string;
+  file: File;
+  preview: string;
+}
+
+interface ShotStripProps {
+  shots: Shot[];
+  onReorder: (shots: Shot[]) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+}
+
+// Thumbnail width plus gap, used to turn a drag distance into a number of slots.
+const SLOT_WIDTH = 56;
+
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+// In a right-to-left layout the strip runs the other way, so dragging or pressing right moves a shot earlier.
+const flowDirection = () => (document.documentElement.dir === "rtl" ? -1 : 1);
+
+export default function ShotStrip({ shots, onReorder, onRemove, onClear }: ShotStripProps) {
+  const { t } = useI18n();
+  const [drag, setDrag] = useState<{ index: number; offset: number } | null>(null);
+  const startXRef = useRef(0);
+
+  if (shots.length === 0) return null;
+
+  const targetIndex = (index: number, offset: number) =>
+    Math.min(Math.max(index + Math.round((offset * flowDirection()) / SLOT_WIDTH), 0), shots.length - 1);
+
+  const handlePointerDown = (index: number) => (e: React.PointerEvent) => {
+    (e.currentTarget as Element).setPointerCapture(e.pointerId);
+    startXRef.current = e.clientX;
+    setDrag({ index, offset: 0 });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    setDrag({ ...drag, offset: e.clientX - startXRef.current });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    const to = targetIndex(drag.index, drag.offset);
+    if (to !== drag.index) onReorder(moveItem(shots, drag.index, to));
+    setDrag(null);
+  };
+
+  // Keyboard alternative to dragging: arrow keys move the focused shot one slot on screen,
+  // passed as a drag offset so targetIndex handles the RTL flip exactly as it does for pointers.
+  const handleKeyDown = (index: number) => (e: React.KeyboardEvent) => {
+    const step = e.key === "ArrowRight" ? 1 : e.key === "ArrowLeft" ? -1 : 0;
+    if (step === 0) return;
+    e.preventDefault();
+    const to = targetIndex(index, step * SLOT_WIDTH);
+    if (to !== index) onReorder(moveItem(shots, index, to));
+  };
+
+  return (
+    <div
+      role="group"
+      aria-label={t("a11y.shotAdded", { count: shots.length, max: MAX_SHOTS })}
+      className="absolute bottom-[136px] left-1/2 -translate-x-1/2 flex items-center space-x-2 px-2 py-2 rounded-2xl shadow-md z-10 max-w-[340px]"
+      style={{
+        background: "rgba(255, 255, 255, 0.2)",
+        backdropFilter: "blur(10px)",
+        border: "1px solid rgba(255, 255, 255, 0.3)",
+      }}
+    >
+      <div role="list" className="flex space-x-2 overflow-x-auto">
+        {shots.map((shot, index) => {
+          const dragging = drag?.index === index;
+          return (
+            <div
+              key={shot.id}
+              className={`relative flex-shrink-0 w-12 h-12 rounded-lg overflow-hidden touch-none cursor-grab ${dragging ? "z-10 ring-2 ring-white" : ""}`}
+              style={{
+                transform: dragging ? `translateX(${drag.offset}px) scale(1.1)` : undefined,
+                transition: dragging ? "none" : "transform 150ms",
+              }}
+              onPointerDown={handlePointerDown(index)}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={() => setDrag(null)}
+              onKeyDown={handleKeyDown(index)}
+              tabIndex={0}
+              role="listitem"
+              aria-label={t("a11y.shot", { index: index + 1 })}
+            >
+              <Image
+                src={shot.preview}
+                alt=""
+                width={48}
+                height={48}
+                className="w-full h-full object-cover pointer-events-none"
+                unoptimized
+              />
+              <span aria-hidden className="absolute bottom-0 start-0 px-1 text-[10px] font-medium text-white bg-black/60 rounded-se">
+                {index + 1}
+              </span>
+              <button
+                onPointerDown={(e) => e.stopPropagation()}
+                onClick={() => onRemove(shot.id)}
+                aria-label={t("a11y.removeShot", { index: index + 1 })}
+                className="absolute top-0 end-0 p-0.5 bg-black/60 rounded-es"
+              >
+                <X className="w-3 h-3 text-white" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+      <button onClick={onClear} aria-label={t("a11y.clearShots")} className="flex-shrink-0 p-2 text-white">
+        <Trash2 className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
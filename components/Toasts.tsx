@@ -0,0 +1,32 @@
+"use client";
+
+import { AlertTriangle, CheckCircle, Info, X } from "lucide-react";
+import type { Toast } from "@/hooks/useToasts";
+import { useI18n } from "@/hooks/useI18n";
+
+const TONES = {
+  info: { Icon: Info, className: "bg-gray-800 border-gray-600 text-gray-100" },
+  success: { Icon: CheckCircle, className: "bg-green-100 border-green-400 text-green-700" },
+  error: { Icon: AlertTriangle, className: "bg-red-100 border-red-400 text-red-700" },
+};
+
+export default function Toasts({ toasts, onDismiss }: { toasts: Toast[]; onDismiss: (id: string) => void }) {
+  const { t } = useI18n();
+  // The container stays mounted so screen readers are already watching it when the first toast arrives.
+  return (
+    <div aria-live="polite" className="fixed top-20 left-1/2 transform -translate-x-1/2 w-[340px] space-y-2 z-50">
+      {toasts.map(({ id, message, tone }) => {
+        const { Icon, className } = TONES[tone];
+        return (
+          <div key={id} role={tone === "error" ? "alert" : "status"} className={`flex items-start space-x-3 border px-4 py-3 rounded shadow-lg ${className}`}>
+            <Icon className="w-4 h-4 flex-shrink-0 mt-0.5" />
+            <span className="flex-1 text-sm">{message}</span>
+            <button onClick={() => onDismiss(id)} aria-label={t("a11y.dismiss")}>
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
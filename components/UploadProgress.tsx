@@ -0,0 +1,60 @@
+"use client";
+
+import { X } from "lucide-react";
+import { useI18n } from "@/hooks/useI18n";
+
+export interface UploadState {
+  // 0..1 of the photos sent; the server is analyzing once it reaches 1.
+  progress: number;
+  // Set while waiting to retry after a transient failure.
+  retry?: { attempt: number; message: string };
+}
+
+interface UploadProgressProps {
+  state: UploadState;
+  onCancel: () => void;
+}
+
+export default function UploadProgress({ state, onCancel }: UploadProgressProps) {
+  const { t } = useI18n();
+  const { progress, retry } = state;
+  const label = retry
+    ? t("upload.retrying", { message: retry.message, attempt: retry.attempt })
+    : progress < 1
+      ? t("upload.uploading", { percent: Math.round(progress * 100) })
+      : t("upload.analyzing");
+
+  return (
+    <div
+      className="absolute bottom-[136px] left-1/2 -translate-x-1/2 w-[340px] p-3 rounded-2xl shadow-md z-10 text-white"
+      style={{
+        background: "rgba(255, 255, 255, 0.2)",
+        backdropFilter: "blur(10px)",
+        border: "1px solid rgba(255, 255, 255, 0.3)",
+      }}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm">{label}</span>
+        <button onClick={onCancel} className="flex items-center space-x-1 text-xs font-medium px-2 py-1 rounded-full bg-white/20 hover:bg-white/30">
+          <X className="w-3 h-3" />
+          <span>{t("upload.cancel")}</span>
+        </button>
+      </div>
+      <div
+        role="progressbar"
+        aria-label={label}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(progress * 100)}
+        className="h-1.5 bg-white/30 rounded-full overflow-hidden"
+      >
+        <div
+          className={`h-full rounded-full transition-all duration-300 ${retry ? "bg-amber-400" : "bg-white"} ${
+            progress >= 1 && !retry ? "animate-pulse" : ""
+          }`}
+          style={{ width: `${Math.round(progress * 100)}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+import { CheckCircle, XCircle, HelpCircle } from "lucide-react";
+import type { Verdict } from "@/lib/analysis";
+
+export default function VerdictIcon({ verdict }: { verdict: Verdict }) {
+  if (verdict === "yes") return <CheckCircle className="w-5 h-5 text-green-500" />;
+  if (verdict === "no") return <XCircle className="w-5 h-5 text-red-500" />;
+  return <HelpCircle className="w-5 h-5 text-amber-500" />;
+}
@@ -0,0 +1,17 @@
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+
+// Message for a polite live region. Clearing it first makes screen readers repeat an identical message.
+export function useAnnouncer() {
+  const [announcement, setAnnouncement] = useState("");
+  const timer = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  const announce = useCallback((message: string) => {
+    clearTimeout(timer.current);
+    setAnnouncement("");
+    timer.current = setTimeout(() => setAnnouncement(message), 50);
+  }, []);
+
+  return { announcement, announce };
+}
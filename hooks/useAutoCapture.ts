@@ -0,0 +1,67 @@
+"use client";
+
+import { RefObject, useEffect, useRef, useState } from "react";
+import { FrameQuality, LumaFrame, assessFrame, meetsThresholds, sampleVideoFrame } from "@/lib/frame-quality";
+
+const SAMPLE_INTERVAL_MS = 150;
+// How long the frame has to stay good before we shoot.
+const HOLD_MS = 700;
+// Grace period after arming, so the next shot of a multi-shot session isn't the same frame again.
+const ARM_DELAY_MS = 1500;
+
+// Samples the video onto the canvas while `sampling` and reports live quality, which spoken guidance also uses.
+// With `capture` set as well, calls `onCapture` once every threshold has held for HOLD_MS. Fires once per arm;
+// toggle `capture` to arm it again.
+export function useAutoCapture(
+  videoRef: RefObject<HTMLVideoElement | null>,
+  canvasRef: RefObject<HTMLCanvasElement | null>,
+  sampling: boolean,
+  capture: boolean,
+  onCapture: () => void
+) {
+  const [quality, setQuality] = useState<FrameQuality | null>(null);
+  // 0..1 progress through the hold window, for the meter.
+  const [progress, setProgress] = useState(0);
+  const onCaptureRef = useRef(onCapture);
+
+  useEffect(() => {
+    onCaptureRef.current = onCapture;
+  }, [onCapture]);
+
+  useEffect(() => {
+    setProgress(0);
+    if (!sampling) {
+      setQuality(null);
+      return;
+    }
+    let previous: LumaFrame | null = null;
+    let goodSince: number | null = null;
+    const armedAt = Date.now() + ARM_DELAY_MS;
+
+    const timer = setInterval(() => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (!video || !canvas) return;
+      const frame = sampleVideoFrame(video, canvas);
+      if (!frame) return;
+
+      const current = assessFrame(frame, previous);
+      previous = frame;
+      setQuality(current);
+      if (!capture) return;
+
+      const now = Date.now();
+      goodSince = now >= armedAt && meetsThresholds(current) ? goodSince ?? now : null;
+      const held = goodSince === null ? 0 : Math.min(1, (now - goodSince) / HOLD_MS);
+      setProgress(held);
+      if (held >= 1) {
+        clearInterval(timer);
+        onCaptureRef.current();
+      }
+    }, SAMPLE_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [sampling, capture, videoRef, canvasRef]);
+
+  return { quality, progress };
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { RefObject, useEffect, useRef, useState } from "react";
+import { getBarcodeScanner, normalizeBarcode } from "@/lib/barcode";
+
+const SCAN_INTERVAL_MS = 250;
+
+// Polls the video for a retail barcode while `enabled`, and stops at the first valid one.
+// Re-enable (toggle `enabled`) to scan again.
+export function useBarcodeScanner(
+  videoRef: RefObject<HTMLVideoElement | null>,
+  enabled: boolean,
+  onDetect: (barcode: string) => void
+) {
+  const [unavailable, setUnavailable] = useState(false);
+  const onDetectRef = useRef(onDetect);
+
+  useEffect(() => {
+    onDetectRef.current = onDetect;
+  }, [onDetect]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const scan = async (scanner: Awaited<ReturnType<typeof getBarcodeScanner>>) => {
+      if (cancelled) return;
+      const video = videoRef.current;
+      if (video && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+        try {
+          for (const { rawValue, format } of await scanner.detect(video)) {
+            const barcode = normalizeBarcode(rawValue, format);
+            if (barcode && !cancelled) {
+              onDetectRef.current(barcode);
+              return;
+            }
+          }
+        } catch (error) {
+          console.error("Barcode detection failed", error);
+        }
+      }
+      timer = setTimeout(() => scan(scanner), SCAN_INTERVAL_MS);
+    };
+
+    getBarcodeScanner()
+      .then((scanner) => {
+        setUnavailable(false);
+        scan(scanner);
+      })
+      .catch((error) => {
+        console.error("Barcode scanner unavailable", error);
+        setUnavailable(true);
+      });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [enabled, videoRef]);
+
+  return { unavailable };
+}
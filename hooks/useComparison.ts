@@ -0,0 +1,34 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { MAX_COMPARED } from "@/lib/compare";
+import type { ScanRecord } from "@/lib/history";
+
+// The products picked for comparison, from fresh scans or history, in the order they were added.
+export function useComparison() {
+  const [compared, setCompared] = useState<ScanRecord[]>([]);
+
+  const isCompared = useCallback((id: string) => compared.some((record) => record.id === id), [compared]);
+
+  // Returns false when the comparison is already full, so the caller can say why nothing happened.
+  const toggleCompared = useCallback(
+    (record: ScanRecord) => {
+      if (compared.some((entry) => entry.id === record.id)) {
+        setCompared(compared.filter((entry) => entry.id !== record.id));
+        return true;
+      }
+      if (compared.length >= MAX_COMPARED) return false;
+      setCompared([...compared, record]);
+      return true;
+    },
+    [compared]
+  );
+
+  const removeCompared = useCallback((id: string) => {
+    setCompared((current) => current.filter((record) => record.id !== id));
+  }, []);
+
+  const clearCompared = useCallback(() => setCompared([]), []);
+
+  return { compared, isCompared, toggleCompared, removeCompared, clearCompared };
+}
@@ -0,0 +1,10 @@
+"use client";
+
+import { useContext } from "react";
+import { I18nContext } from "@/components/I18nProvider";
+
+export function useI18n() {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error("useI18n must be used inside I18nProvider");
+  return context;
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+// Keys as in KeyboardEvent.key, e.g. " ", "Enter", "Escape", "h", "?".
+export type ShortcutMap = Record<string, () => void>;
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+// Single-key shortcuts for desktop. Keys pressed while typing, with a modifier, or on a focused
+// button (where Space and Enter already mean "press this") are left to the browser.
+export function useKeyboardShortcuts(shortcuts: ShortcutMap, enabled: boolean) {
+  const shortcutsRef = useRef(shortcuts);
+
+  useEffect(() => {
+    shortcutsRef.current = shortcuts;
+  }, [shortcuts]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey || isTyping(event.target)) return;
+      const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+      if ((key === " " || key === "Enter") && event.target instanceof HTMLElement && event.target.closest("button, a, [role=button]")) {
+        return;
+      }
+      const action = shortcutsRef.current[key];
+      if (!action) return;
+      event.preventDefault();
+      action();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [enabled]);
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { requestAnalysis } from "@/lib/api";
+import { useI18n } from "@/hooks/useI18n";
+import { isTransientError } from "@/lib/analysis-errors";
+import { replaceScan, saveScan } from "@/lib/history";
+import { requestNotificationPermission, showSystemNotification } from "@/lib/notifications";
+import { OutboxItem, enqueueUpload, listOutbox, removeFromOutbox, rescheduleUpload } from "@/lib/outbox";
+
+export const OUTBOX_SYNC_TAG = "outbox";
+
+export interface OutboxStatus {
+  pending: number;
+  sending: boolean;
+  // Queued scans analyzed (or given up on) since the user last dismissed the indicator.
+  completed: number;
+  failed: number;
+}
+
+interface SyncManagerRegistration extends ServiceWorkerRegistration {
+  sync?: { register: (tag: string) => Promise<void> };
+}
+
+// Asks the service worker to wake us when connectivity returns, where Background Sync exists.
+async function registerBackgroundSync() {
+  try {
+    const registration = (await navigator.serviceWorker?.getRegistration()) as SyncManagerRegistration | undefined;
+    await registration?.sync?.register(OUTBOX_SYNC_TAG);
+  } catch (error) {
+    console.error("Background sync registration failed", error);
+  }
+}
+
+export function useOutbox() {
+  const { t } = useI18n();
+  const [status, setStatus] = useState<OutboxStatus>({ pending: 0, sending: false, completed: 0, failed: 0 });
+  const flushing = useRef(false);
+  const retryTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const flushRef = useRef<(force?: boolean) => Promise<void>>(async () => {});
+  // Read at notification time, so a language change doesn't recreate flush and trigger another run.
+  const tRef = useRef(t);
+
+  useEffect(() => {
+    tRef.current = t;
+  }, [t]);
+
+  const scheduleRetry = useCallback((items: OutboxItem[]) => {
+    if (retryTimer.current) clearTimeout(retryTimer.current);
+    retryTimer.current = null;
+    if (items.length === 0) return;
+    const nextAttemptAt = Math.min(...items.map((item) => item.nextAttemptAt));
+    retryTimer.current = setTimeout(() => flushRef.current(), Math.max(nextAttemptAt - Date.now(), 0));
+  }, []);
+
+  // `force` ignores backoff, for when we have a reason to think the network is back.
+  const flush = useCallback(async (force = false) => {
+    if (flushing.current) return;
+    flushing.current = true;
+    setStatus((current) => ({ ...current, sending: true }));
+    let completed = 0;
+    let failed = 0;
+    try {
+      const now = Date.now();
+      for (const item of await listOutbox()) {
+        if (!force && item.nextAttemptAt > now) continue;
+        try {
+          const analysis = await requestAnalysis(item.images, item.fileNames, { language: item.language });
+          if (item.historyId) await replaceScan(item.historyId, analysis, item.thumbnail);
+          else await saveScan(analysis, item.thumbnail);
+          await removeFromOutbox(item.id);
+          completed++;
+        } catch (error) {
+          if (isTransientError(error)) {
+            await rescheduleUpload(item);
+          } else {
+            console.error("Queued analysis failed permanently", error);
+            await removeFromOutbox(item.id);
+            failed++;
+          }
+        }
+      }
+    } catch (error) {
+      console.error("Failed to process outbox", error);
+    } finally {
+      flushing.current = false;
+    }
+
+    const remaining = await listOutbox().catch(() => []);
+    scheduleRetry(remaining);
+    setStatus((current) => ({
+      pending: remaining.length,
+      sending: false,
+      completed: current.completed + completed,
+      failed: current.failed + failed,
+    }));
+    if (completed > 0) {
+      showSystemNotification(
+        "ClearByte",
+        completed === 1 ? tRef.current("outbox.notifyOne") : tRef.current("outbox.notify", { count: completed })
+      );
+    }
+  }, [scheduleRetry]);
+
+  useEffect(() => {
+    flushRef.current = flush;
+  }, [flush]);
+
+  const enqueue = useCallback(async (
+    images: Blob[],
+    fileNames: string[],
+    thumbnail?: string,
+    language?: string,
+    historyId?: string
+  ) => {
+    await enqueueUpload(images, fileNames, thumbnail, language, historyId);
+    setStatus((current) => ({ ...current, pending: current.pending + 1 }));
+    requestNotificationPermission();
+    registerBackgroundSync();
+    scheduleRetry(await listOutbox());
+  }, [scheduleRetry]);
+
+  const dismiss = useCallback(() => {
+    setStatus((current) => ({ ...current, completed: 0, failed: 0 }));
+  }, []);
+
+  useEffect(() => {
+    flush();
+    const handleOnline = () => flush(true);
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === "outbox-sync") flush(true);
+    };
+    window.addEventListener("online", handleOnline);
+    navigator.serviceWorker?.addEventListener("message", handleMessage);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      navigator.serviceWorker?.removeEventListener("message", handleMessage);
+      if (retryTimer.current) clearTimeout(retryTimer.current);
+    };
+  }, [flush]);
+
+  return { status, enqueue, flush, dismiss };
+}
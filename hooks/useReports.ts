@@ -0,0 +1,85 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { sendReport } from "@/lib/api";
+import { isTransientError } from "@/lib/analysis-errors";
+import {
+  CorrectionReport,
+  ReportDraft,
+  listReports,
+  markReportFailed,
+  markReportSent,
+  rescheduleReport,
+  saveReport,
+} from "@/lib/reports";
+
+// Correction reports and their delivery: saved locally first, then sent with the outbox's backoff.
+export function useReports() {
+  const [reports, setReports] = useState<CorrectionReport[]>([]);
+  const sending = useRef(false);
+  const retryTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const flushRef = useRef<(force?: boolean) => Promise<void>>(async () => {});
+
+  const scheduleRetry = useCallback((current: CorrectionReport[]) => {
+    if (retryTimer.current) clearTimeout(retryTimer.current);
+    retryTimer.current = null;
+    const pending = current.filter((report) => report.status === "pending");
+    if (pending.length === 0) return;
+    const nextAttemptAt = Math.min(...pending.map((report) => report.nextAttemptAt));
+    retryTimer.current = setTimeout(() => flushRef.current(), Math.max(nextAttemptAt - Date.now(), 0));
+  }, []);
+
+  // `force` ignores backoff, for when we have a reason to think the network is back.
+  const flush = useCallback(async (force = false) => {
+    if (sending.current) return;
+    sending.current = true;
+    try {
+      const now = Date.now();
+      for (const report of await listReports()) {
+        if (report.status !== "pending" || (!force && report.nextAttemptAt > now)) continue;
+        try {
+          await sendReport(report);
+          await markReportSent(report);
+        } catch (error) {
+          if (isTransientError(error)) {
+            await rescheduleReport(report);
+          } else {
+            console.error("Correction report was rejected", error);
+            await markReportFailed(report);
+          }
+        }
+      }
+    } catch (error) {
+      console.error("Failed to send correction reports", error);
+    } finally {
+      sending.current = false;
+    }
+
+    const current = await listReports().catch(() => []);
+    setReports(current);
+    scheduleRetry(current);
+  }, [scheduleRetry]);
+
+  useEffect(() => {
+    flushRef.current = flush;
+  }, [flush]);
+
+  const submit = useCallback(async (draft: ReportDraft) => {
+    const report = await saveReport(draft);
+    setReports((current) => [report, ...current]);
+    flush(true);
+    return report;
+  }, [flush]);
+
+  useEffect(() => {
+    flush();
+    const handleOnline = () => flush(true);
+    window.addEventListener("online", handleOnline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      if (retryTimer.current) clearTimeout(retryTimer.current);
+    };
+  }, [flush]);
+
+  return { reports, submit, flush };
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export type ToastTone = "info" | "success" | "error";
+
+export interface Toast {
+  id: string;
+  message: string;
+  tone: ToastTone;
+}
+
+const TOAST_DURATION_MS = 5000;
+
+// In-app replacement for alert(): short messages that dismiss themselves.
+export function useToasts() {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const timers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  const dismissToast = useCallback((id: string) => {
+    clearTimeout(timers.current.get(id));
+    timers.current.delete(id);
+    setToasts((current) => current.filter((toast) => toast.id !== id));
+  }, []);
+
+  const showToast = useCallback((message: string, tone: ToastTone = "info") => {
+    const id = crypto.randomUUID();
+    // The same message twice in a row just restarts its timer.
+    setToasts((current) => [...current.filter((toast) => toast.message !== message), { id, message, tone }]);
+    timers.current.set(id, setTimeout(() => dismissToast(id), TOAST_DURATION_MS));
+  }, [dismissToast]);
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => pending.forEach((timer) => clearTimeout(timer));
+  }, []);
+
+  return { toasts, showToast, dismissToast };
+}
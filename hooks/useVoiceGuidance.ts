@@ -0,0 +1,44 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { FrameQuality, FramingHint, framingHint } from "@/lib/frame-quality";
+import { speak } from "@/lib/speech";
+import type { MessageKey, Translate } from "@/lib/i18n";
+
+// Minimum gap between two spoken hints, so guidance doesn't talk over itself.
+const MIN_GAP_MS = 2500;
+// A hint that still applies is repeated after this long.
+const REPEAT_MS = 6000;
+
+const HINT_MESSAGES: Record<FramingHint, MessageKey> = {
+  closer: "guidance.closer",
+  back: "guidance.back",
+  steady: "guidance.steady",
+  ready: "guidance.ready",
+};
+
+// Speaks what to fix in the live frame while `enabled`, from the scores useAutoCapture samples.
+// Without auto capture, a good frame is a prompt to take the photo rather than a warning that it's being taken.
+export function useVoiceGuidance(
+  quality: FrameQuality | null,
+  enabled: boolean,
+  autoCapture: boolean,
+  t: Translate,
+  lang: string
+) {
+  const lastRef = useRef<{ hint: FramingHint; at: number } | null>(null);
+
+  useEffect(() => {
+    if (!enabled) lastRef.current = null;
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!enabled || !quality) return;
+    const hint = framingHint(quality);
+    const now = Date.now();
+    const last = lastRef.current;
+    if (last && now - last.at < (last.hint === hint ? REPEAT_MS : MIN_GAP_MS)) return;
+    lastRef.current = { hint, at: now };
+    speak(t(hint === "ready" && !autoCapture ? "guidance.readyManual" : HINT_MESSAGES[hint]), lang);
+  }, [quality, enabled, autoCapture, t, lang]);
+}
@@ -0,0 +1,34 @@
+export interface AccessibilitySettings {
+  // Speak framing hints ("move closer", "hold steady") while auto capture is looking for a frame.
+  voiceGuidance: boolean;
+  // Speak the verdict and offending ingredients as soon as a result arrives.
+  readResultsAloud: boolean;
+  highContrast: boolean;
+}
+
+const STORAGE_KEY = "clearbyte.accessibility";
+
+// Until the user chooses, the theme follows the system's increased-contrast preference.
+export function defaultAccessibilitySettings(): AccessibilitySettings {
+  const prefersContrast = typeof window !== "undefined" && window.matchMedia?.("(prefers-contrast: more)").matches;
+  return { voiceGuidance: false, readResultsAloud: false, highContrast: Boolean(prefersContrast) };
+}
+
+export function loadAccessibilitySettings(): AccessibilitySettings {
+  const defaults = defaultAccessibilitySettings();
+  try {
+    const data = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (typeof data !== "object" || data === null) return defaults;
+    return {
+      voiceGuidance: typeof data.voiceGuidance === "boolean" ? data.voiceGuidance : defaults.voiceGuidance,
+      readResultsAloud: typeof data.readResultsAloud === "boolean" ? data.readResultsAloud : defaults.readResultsAloud,
+      highContrast: typeof data.highContrast === "boolean" ? data.highContrast : defaults.highContrast,
+    };
+  } catch {
+    return defaults;
+  }
+}
+
+export function saveAccessibilitySettings(settings: AccessibilitySettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
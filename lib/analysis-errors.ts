@@ -0,0 +1,40 @@
+// Everything that can go wrong between pressing "analyze" and getting a result, shared by the
+// /api/analyze route (which reports a `kind` in its error bodies) and the client.
+const KINDS = [
+  "offline",
+  "timeout",
+  "waking-up",
+  "server",
+  "unsupported-image",
+  "invalid-response",
+  "cancelled",
+] as const;
+
+export type AnalysisErrorKind = (typeof KINDS)[number];
+
+export interface AnalysisErrorBody {
+  message: string;
+  kind: AnalysisErrorKind;
+}
+
+export class AnalysisRequestError extends Error {
+  constructor(readonly kind: AnalysisErrorKind, message: string, readonly status?: number) {
+    super(message);
+    this.name = "AnalysisRequestError";
+  }
+}
+
+// Worth trying again later: the request itself was fine, the network or the server wasn't.
+export const isTransientError = (error: unknown) =>
+  error instanceof AnalysisRequestError && ["offline", "timeout", "waking-up", "server"].includes(error.kind);
+
+export const isAnalysisErrorKind = (value: unknown): value is AnalysisErrorKind =>
+  typeof value === "string" && (KINDS as readonly string[]).includes(value);
+
+// Fallback for responses without a `kind`, e.g. from a proxy in front of the app.
+export function kindFromStatus(status: number): AnalysisErrorKind {
+  if (status === 503) return "waking-up";
+  if (status === 504 || status === 408) return "timeout";
+  if (status >= 500) return "server";
+  return "unsupported-image";
+}
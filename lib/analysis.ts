@@ -0,0 +1,160 @@
+export const ANALYSIS_RESULT_VERSION = 2;
+
+export type Verdict = "yes" | "no" | "uncertain";
+
+export interface CategoryVerdict {
+  verdict: Verdict;
+  // 0..1, absent when the backend didn't report one (e.g. legacy responses).
+  confidence?: number;
+  offendingIngredients: string[];
+  reason?: string;
+}
+
+// Where a result came from; results without one were produced by the analysis backend.
+// "corrected" results were reclassified on the device after the user fixed the extracted text.
+export type AnalysisSource = "server" | "offline" | "database" | "corrected";
+
+export interface ProductInfo {
+  barcode: string;
+  name?: string;
+  brand?: string;
+}
+
+export interface AnalysisResult {
+  version: typeof ANALYSIS_RESULT_VERSION;
+  source?: AnalysisSource;
+  // Set when the result was looked up by barcode.
+  product?: ProductInfo;
+  text?: string;
+  ingredients: string[];
+  classification: Record<string, CategoryVerdict>;
+}
+
+// The original backend contract: one boolean per category and nothing else.
+export interface LegacyAnalysisResult {
+  text?: string;
+  classification?: Record<string, boolean>;
+}
+
+export class AnalysisFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AnalysisFormatError";
+  }
+}
+
+const VERDICTS: Verdict[] = ["yes", "no", "uncertain"];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+// Splits an ingredient panel on top-level commas/semicolons, keeping bracketed sub-ingredients with their parent.
+export function parseIngredientList(text: string): string[] {
+  const body = text.replace(/^[\s\S]*?ingredients?\s*:/i, "");
+  const ingredients: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of body) {
+    if (char === "(" || char === "[") depth++;
+    if ((char === ")" || char === "]") && depth > 0) depth--;
+    if (depth === 0 && (char === "," || char === ";")) {
+      ingredients.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  ingredients.push(current);
+  return ingredients
+    .map((item) => item.replace(/\s+/g, " ").replace(/^[\s.]+|[\s.]+$/g, ""))
+    .filter(Boolean);
+}
+
+function parseVerdict(category: string, value: unknown): CategoryVerdict {
+  if (!isRecord(value)) {
+    throw new AnalysisFormatError(`Category "${category}" must be an object`);
+  }
+  const { verdict, confidence, offendingIngredients, reason } = value;
+  if (typeof verdict !== "string" || !VERDICTS.includes(verdict as Verdict)) {
+    throw new AnalysisFormatError(`Category "${category}" has an invalid verdict`);
+  }
+  if (confidence !== undefined && (typeof confidence !== "number" || confidence < 0 || confidence > 1)) {
+    throw new AnalysisFormatError(`Category "${category}" has a confidence outside 0..1`);
+  }
+  if (offendingIngredients !== undefined && !isStringArray(offendingIngredients)) {
+    throw new AnalysisFormatError(`Category "${category}" has invalid offending ingredients`);
+  }
+  if (reason !== undefined && typeof reason !== "string") {
+    throw new AnalysisFormatError(`Category "${category}" has an invalid reason`);
+  }
+  return {
+    verdict: verdict as Verdict,
+    confidence,
+    offendingIngredients: offendingIngredients ?? [],
+    reason,
+  };
+}
+
+function parseCurrent(data: Record<string, unknown>): AnalysisResult {
+  if (data.text !== undefined && typeof data.text !== "string") {
+    throw new AnalysisFormatError("Field \"text\" must be a string");
+  }
+  if (data.ingredients !== undefined && !isStringArray(data.ingredients)) {
+    throw new AnalysisFormatError("Field \"ingredients\" must be a list of strings");
+  }
+  if (!isRecord(data.classification)) {
+    throw new AnalysisFormatError("Field \"classification\" must be an object");
+  }
+  const classification = Object.fromEntries(
+    Object.entries(data.classification).map(([category, value]) => [category, parseVerdict(category, value)])
+  );
+  const text = data.text as string | undefined;
+  return {
+    version: ANALYSIS_RESULT_VERSION,
+    text,
+    ingredients: (data.ingredients as string[] | undefined) ?? (text ? parseIngredientList(text) : []),
+    classification,
+  };
+}
+
+function upgradeLegacy(data: Record<string, unknown>): AnalysisResult {
+  if (data.text !== undefined && typeof data.text !== "string") {
+    throw new AnalysisFormatError("Field \"text\" must be a string");
+  }
+  const text = data.text as string | undefined;
+  const classification: Record<string, CategoryVerdict> = {};
+  if (data.classification !== undefined) {
+    if (!isRecord(data.classification)) {
+      throw new AnalysisFormatError("Field \"classification\" must be an object");
+    }
+    for (const [category, value] of Object.entries(data.classification)) {
+      if (typeof value !== "boolean") {
+        throw new AnalysisFormatError(`Legacy category "${category}" must be a boolean`);
+      }
+      classification[category] = { verdict: value ? "yes" : "no", offendingIngredients: [] };
+    }
+  }
+  return {
+    version: ANALYSIS_RESULT_VERSION,
+    text,
+    ingredients: text ? parseIngredientList(text) : [],
+    classification,
+  };
+}
+
+// Validates a response body, upgrading the legacy boolean-map format. Throws AnalysisFormatError on anything else.
+export function parseAnalysisResult(data: unknown): AnalysisResult {
+  if (!isRecord(data)) {
+    throw new AnalysisFormatError("Analysis result must be an object");
+  }
+  if (data.version === undefined) {
+    return upgradeLegacy(data);
+  }
+  if (data.version !== ANALYSIS_RESULT_VERSION) {
+    throw new AnalysisFormatError(`Unsupported analysis result version: ${String(data.version)}`);
+  }
+  return parseCurrent(data);
+}
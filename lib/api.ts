@@ -0,0 +1,135 @@
+import axios from "axios";
+import { AnalysisFormatError, AnalysisResult, parseAnalysisResult } from "./analysis";
+import { AnalysisRequestError, isAnalysisErrorKind, isTransientError, kindFromStatus } from "./analysis-errors";
+import { CorrectionReport, toReportPayload } from "./reports";
+
+const ANALYZE_TIMEOUT_MS = 35000;
+const HEALTH_TIMEOUT_MS = 10000;
+const FEEDBACK_TIMEOUT_MS = 35000;
+
+// Automatic retries for transient failures, on top of the first attempt.
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 2000;
+
+export type BackendHealth = "ready" | "waking-up" | "unreachable";
+
+export interface AnalysisRequestOptions {
+  signal?: AbortSignal;
+  // Language printed on the label, passed to the OCR as a hint; "auto" lets the server detect it.
+  language?: string;
+  // Fraction (0..1) of the upload sent so far.
+  onUploadProgress?: (fraction: number) => void;
+}
+
+export interface RetryOptions extends AnalysisRequestOptions {
+  // Called before each automatic retry, with the error that triggered it.
+  onRetry?: (error: AnalysisRequestError, attempt: number, delayMs: number) => void;
+}
+
+// Turns whatever axios or the parser threw into the typed error model.
+export function toAnalysisRequestError(error: unknown): AnalysisRequestError {
+  if (error instanceof AnalysisRequestError) return error;
+  if (error instanceof AnalysisFormatError) return new AnalysisRequestError("invalid-response", error.message);
+  if (axios.isCancel(error)) return new AnalysisRequestError("cancelled", "Upload cancelled");
+  if (typeof navigator !== "undefined" && !navigator.onLine) {
+    return new AnalysisRequestError("offline", "The device is offline");
+  }
+  if (axios.isAxiosError(error)) {
+    if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+      return new AnalysisRequestError("timeout", error.message);
+    }
+    if (!error.response) return new AnalysisRequestError("offline", error.message);
+    const { status, data } = error.response;
+    const message = typeof data?.message === "string" ? data.message : `Server responded with ${status}`;
+    return new AnalysisRequestError(isAnalysisErrorKind(data?.kind) ? data.kind : kindFromStatus(status), message, status);
+  }
+  return new AnalysisRequestError("server", error instanceof Error ? error.message : String(error));
+}
+
+// Uploads the shots of one scan to our /api/analyze route and validates the merged answer.
+export async function requestAnalysis(
+  images: Blob[],
+  fileNames: string[] = [],
+  { signal, language, onUploadProgress }: AnalysisRequestOptions = {}
+): Promise<AnalysisResult> {
+  const formData = new FormData();
+  images.forEach((image, index) => {
+    formData.append("file", image, image instanceof File ? image.name : fileNames[index] ?? `upload-${index + 1}.jpg`);
+  });
+  if (language && language !== "auto") formData.append("language", language);
+  try {
+    const response = await axios.post("/api/analyze", formData, {
+      headers: {
+        "Content-Type": "multipart/form-data",
+      },
+      timeout: ANALYZE_TIMEOUT_MS,
+      signal,
+      onUploadProgress: (event) => {
+        if (event.total) onUploadProgress?.(event.loaded / event.total);
+      },
+    });
+    return parseAnalysisResult(response.data);
+  } catch (error) {
+    throw toAnalysisRequestError(error);
+  }
+}
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AnalysisRequestError("cancelled", "Upload cancelled"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// requestAnalysis with exponential backoff for timeouts, server errors and a backend that is still waking up.
+// Being offline is not retried here; the caller queues the scan in the outbox instead.
+export async function requestAnalysisWithRetry(
+  images: Blob[],
+  fileNames: string[] = [],
+  { onRetry, ...options }: RetryOptions = {}
+): Promise<AnalysisResult> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await requestAnalysis(images, fileNames, options);
+    } catch (error) {
+      const typed = toAnalysisRequestError(error);
+      if (attempt >= MAX_RETRIES || !isTransientError(typed) || typed.kind === "offline") throw typed;
+      const delay = BASE_RETRY_DELAY_MS * 2 ** attempt;
+      onRetry?.(typed, attempt + 1, delay);
+      await wait(delay, options.signal);
+    }
+  }
+}
+
+// Wakes the analysis backend ahead of the first upload; never throws.
+export async function warmUpBackend(): Promise<BackendHealth> {
+  try {
+    const response = await axios.get("/api/health", { timeout: HEALTH_TIMEOUT_MS, validateStatus: () => true });
+    return response.data?.status === "ready" ? "ready" : "waking-up";
+  } catch {
+    return "unreachable";
+  }
+}
+
+// Sends one correction report to our /api/feedback route; failures use the same typed errors as uploads.
+export async function sendReport(report: CorrectionReport): Promise<void> {
+  const formData = new FormData();
+  formData.append("report", JSON.stringify(toReportPayload(report)));
+  if (report.image) formData.append("image", report.image, "label.jpg");
+  try {
+    await axios.post("/api/feedback", formData, {
+      headers: {
+        "Content-Type": "multipart/form-data",
+      },
+      timeout: FEEDBACK_TIMEOUT_MS,
+    });
+  } catch (error) {
+    throw toAnalysisRequestError(error);
+  }
+}
@@ -0,0 +1,46 @@
+export type BackendMode = "remote" | "mock";
+
+export interface BackendConfig {
+  mode: BackendMode;
+  url: string;
+  timeoutMs: number;
+  mockDelayMs: number;
+}
+
+const DEFAULT_BACKEND_URL = "https://clearbyte-backend-render.onrender.com/upload";
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MOCK_DELAY_MS = 800;
+
+const readNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+// Server-only: reads the analysis backend settings from the environment on every request.
+export function getBackendConfig(): BackendConfig {
+  return {
+    mode: process.env.ANALYSIS_BACKEND_MODE === "mock" ? "mock" : "remote",
+    url: process.env.ANALYSIS_BACKEND_URL || DEFAULT_BACKEND_URL,
+    timeoutMs: readNumber(process.env.ANALYSIS_BACKEND_TIMEOUT_MS, DEFAULT_TIMEOUT_MS),
+    mockDelayMs: readNumber(process.env.ANALYSIS_MOCK_DELAY_MS, DEFAULT_MOCK_DELAY_MS),
+  };
+}
+
+export interface FeedbackConfig {
+  mode: BackendMode;
+  // Where correction reports are forwarded; null when no endpoint is configured.
+  url: string | null;
+  timeoutMs: number;
+}
+
+// Server-only: the feedback endpoint settings, read on every request like the backend's.
+// The in-memory stand-in is only used when asked for, or in development without an endpoint.
+export function getFeedbackConfig(): FeedbackConfig {
+  const url = process.env.FEEDBACK_URL || null;
+  const mock = process.env.FEEDBACK_MODE === "mock" || (!url && process.env.NODE_ENV === "development");
+  return {
+    mode: mock ? "mock" : "remote",
+    url,
+    timeoutMs: readNumber(process.env.FEEDBACK_TIMEOUT_MS, DEFAULT_TIMEOUT_MS),
+  };
+}
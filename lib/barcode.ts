@@ -0,0 +1,82 @@
+// Live EAN/UPC decoding: the native BarcodeDetector where the browser has one, the zxing-wasm
+// ponyfill (served from public/zxing) everywhere else.
+
+export const RETAIL_FORMATS = ["ean_13", "ean_8", "upc_a", "upc_e"] as const;
+
+export interface DetectedCode {
+  rawValue: string;
+  format: string;
+}
+
+export interface BarcodeScanner {
+  detect: (source: HTMLVideoElement | HTMLCanvasElement | ImageBitmap) => Promise<DetectedCode[]>;
+}
+
+interface NativeBarcodeDetectorConstructor {
+  new (options?: { formats?: string[] }): BarcodeScanner;
+  getSupportedFormats: () => Promise<string[]>;
+}
+
+let scannerPromise: Promise<BarcodeScanner> | null = null;
+
+async function createNativeScanner(): Promise<BarcodeScanner | null> {
+  const Native = (globalThis as { BarcodeDetector?: NativeBarcodeDetectorConstructor }).BarcodeDetector;
+  if (!Native) return null;
+  try {
+    const supported = await Native.getSupportedFormats();
+    const formats = RETAIL_FORMATS.filter((format) => supported.includes(format));
+    return formats.length > 0 ? new Native({ formats }) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function createWasmScanner(): Promise<BarcodeScanner> {
+  const { BarcodeDetector, prepareZXingModule } = await import("barcode-detector/ponyfill");
+  prepareZXingModule({
+    overrides: {
+      locateFile: (path: string, prefix: string) => (path.endsWith(".wasm") ? "/zxing/zxing_reader.wasm" : prefix + path),
+    },
+  });
+  return new BarcodeDetector({ formats: [...RETAIL_FORMATS] });
+}
+
+export function getBarcodeScanner(): Promise<BarcodeScanner> {
+  if (!scannerPromise) {
+    scannerPromise = createNativeScanner()
+      .then((native) => native ?? createWasmScanner())
+      .catch((error) => {
+        scannerPromise = null;
+        throw error;
+      });
+  }
+  return scannerPromise;
+}
+
+// GTIN check digit: weights 3 and 1 alternating from the right, excluding the check digit itself.
+export function isValidGtin(code: string): boolean {
+  if (!/^\d{8}$|^\d{12,14}$/.test(code)) return false;
+  const digits = code.split("").map(Number);
+  const check = digits.pop();
+  const sum = digits.reverse().reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+}
+
+// Expands UPC-E to UPC-A, as specified by GS1.
+function expandUpcE(code: string): string {
+  const [system, d1, d2, d3, d4, d5, d6, check] = code.split("");
+  const body =
+    d6 <= "2" ? `${d1}${d2}${d6}0000${d3}${d4}${d5}` :
+    d6 === "3" ? `${d1}${d2}${d3}00000${d4}${d5}` :
+    d6 === "4" ? `${d1}${d2}${d3}${d4}00000${d5}` :
+    `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  return `${system}${body}${check}`;
+}
+
+// Canonical key for product lookups: UPC-A and UPC-E become EAN-13, EAN-8 stays as is.
+export function normalizeBarcode(rawValue: string, format?: string): string | null {
+  let code = rawValue.replace(/\D/g, "");
+  if (format === "upc_e" && code.length === 8) code = expandUpcE(code);
+  if (code.length === 12) code = `0${code}`;
+  return isValidGtin(code) ? code : null;
+}
@@ -0,0 +1,106 @@
+import type { AnalysisResult, Verdict } from "./analysis";
+
+export type BatchStatus = "queued" | "processing" | "done" | "failed";
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  preview: string;
+  status: BatchStatus;
+  result?: AnalysisResult;
+  error?: string;
+}
+
+// Runs at most `limit` tasks at once; tasks added later wait for a free slot.
+export function createConcurrencyLimit(limit: number) {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  const next = () => {
+    if (active >= limit) return;
+    const start = waiting.shift();
+    if (!start) return;
+    active++;
+    start();
+  };
+
+  return <T>(task: () => Promise<T>): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      waiting.push(() => {
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            active--;
+            next();
+          });
+      });
+      next();
+    });
+}
+
+export const batchCategories = (items: BatchItem[]) =>
+  Array.from(new Set(items.flatMap((item) => Object.keys(item.result?.classification ?? {}))));
+
+const VERDICT_ORDER: Record<Verdict, number> = { yes: 0, uncertain: 1, no: 2 };
+const STATUS_ORDER: Record<BatchStatus, number> = { done: 0, processing: 1, queued: 2, failed: 3 };
+
+export type BatchSortKey = "name" | "status" | { category: string };
+
+export function compareBatchItems(a: BatchItem, b: BatchItem, key: BatchSortKey, descending = false): number {
+  const direction = descending ? -1 : 1;
+  if (key === "name") return direction * a.file.name.localeCompare(b.file.name, undefined, { numeric: true });
+  if (key === "status") return direction * (STATUS_ORDER[a.status] - STATUS_ORDER[b.status]);
+  // Items without a verdict for the category sort last, in either direction.
+  const verdictOf = (item: BatchItem) => item.result?.classification[key.category]?.verdict;
+  const [va, vb] = [verdictOf(a), verdictOf(b)];
+  if (!va || !vb) return Number(!va) - Number(!vb);
+  return direction * (VERDICT_ORDER[va] - VERDICT_ORDER[vb]);
+}
+
+// OCR text and file names are untrusted: a leading =, +, -, @ (or tab/CR) would run as a formula in a spreadsheet,
+// so such cells are prefixed with an apostrophe to keep them text.
+function csvCell(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function batchToCsv(items: BatchItem[]): string {
+  const categories = batchCategories(items);
+  const header = [
+    "file",
+    "status",
+    "error",
+    "source",
+    ...categories.flatMap((category) => [category, `${category} confidence`, `${category} offending ingredients`]),
+    "ingredients",
+    "text",
+  ];
+  const rows = items.map((item) => {
+    const result = item.result;
+    return [
+      item.file.name,
+      item.status,
+      item.error ?? "",
+      result ? result.source ?? "server" : "",
+      ...categories.flatMap((category) => {
+        const entry = result?.classification[category];
+        return [
+          entry?.verdict ?? "",
+          entry?.confidence !== undefined ? String(entry.confidence) : "",
+          entry?.offendingIngredients.join("; ") ?? "",
+        ];
+      }),
+      result?.ingredients.join("; ") ?? "",
+      result?.text ?? "",
+    ];
+  });
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n");
+}
+
+export function batchToJson(items: BatchItem[]): string {
+  return JSON.stringify(
+    items.map(({ file, status, result, error }) => ({ file: file.name, status, error, result })),
+    null,
+    2
+  );
+}
@@ -0,0 +1,111 @@
+// Camera capability layer: feature-detects what the active video track supports and applies it.
+
+declare global {
+  interface MediaTrackConstraints {
+    focusMode?: ConstrainDOMString;
+    pointsOfInterest?: { x: number; y: number }[];
+    torch?: ConstrainBoolean;
+    zoom?: ConstrainDouble;
+    exposureCompensation?: ConstrainDouble;
+  }
+  interface MediaTrackCapabilities {
+    focusMode?: string[];
+    torch?: boolean;
+    zoom?: MediaSettingsRange;
+    exposureCompensation?: MediaSettingsRange;
+  }
+  interface MediaTrackConstraintSet {
+    focusMode?: ConstrainDOMString;
+    pointsOfInterest?: { x: number; y: number }[];
+    torch?: ConstrainBoolean;
+    zoom?: ConstrainDouble;
+    exposureCompensation?: ConstrainDouble;
+  }
+  interface MediaTrackSettings {
+    torch?: boolean;
+    zoom?: number;
+    exposureCompensation?: number;
+  }
+  interface MediaSettingsRange {
+    min: number;
+    max: number;
+    step?: number;
+  }
+}
+
+export interface CameraControls {
+  torch: boolean;
+  manualFocus: boolean;
+  // null when the track can't do it; the UI hides those controls.
+  zoom: MediaSettingsRange | null;
+  exposureCompensation: MediaSettingsRange | null;
+}
+
+export const NO_CAMERA_CONTROLS: CameraControls = {
+  torch: false,
+  manualFocus: false,
+  zoom: null,
+  exposureCompensation: null,
+};
+
+// A range is only worth a slider if it actually spans something.
+const usableRange = (range?: MediaSettingsRange) =>
+  range && typeof range.min === "number" && typeof range.max === "number" && range.max > range.min ? range : null;
+
+export function getVideoTrack(video: HTMLVideoElement | null): MediaStreamTrack | null {
+  const stream = video?.srcObject as MediaStream | null | undefined;
+  return stream?.getVideoTracks()[0] ?? null;
+}
+
+export function stopStream(video: HTMLVideoElement | null) {
+  const stream = video?.srcObject as MediaStream | null | undefined;
+  stream?.getTracks().forEach((track) => track.stop());
+}
+
+export function readCameraControls(track: MediaStreamTrack): CameraControls {
+  // Firefox and older Safari have no getCapabilities at all.
+  if (typeof track.getCapabilities !== "function") return NO_CAMERA_CONTROLS;
+  try {
+    const capabilities = track.getCapabilities();
+    return {
+      torch: capabilities.torch === true,
+      manualFocus: capabilities.focusMode?.includes("manual") ?? false,
+      zoom: usableRange(capabilities.zoom),
+      exposureCompensation: usableRange(capabilities.exposureCompensation),
+    };
+  } catch (error) {
+    console.error("Error reading camera capabilities:", error);
+    return NO_CAMERA_CONTROLS;
+  }
+}
+
+// Which way the track's camera points, whether it was opened by facing mode or picked by deviceId. Desktop webcams
+// often don't report it; those face the user.
+export function readFacing(track: MediaStreamTrack): "user" | "environment" {
+  return track.getSettings().facingMode === "environment" ? "environment" : "user";
+}
+
+export function clampToRange(value: number, { min, max, step }: MediaSettingsRange): number {
+  const clamped = Math.min(Math.max(value, min), max);
+  return step ? min + Math.round((clamped - min) / step) * step : clamped;
+}
+
+export const applyTorch = (track: MediaStreamTrack, on: boolean) =>
+  track.applyConstraints({ advanced: [{ torch: on }] });
+
+export const applyZoom = (track: MediaStreamTrack, zoom: number) =>
+  track.applyConstraints({ advanced: [{ zoom }] });
+
+export const applyExposureCompensation = (track: MediaStreamTrack, exposureCompensation: number) =>
+  track.applyConstraints({ advanced: [{ exposureCompensation }] });
+
+// Point is normalized to the video element (0..1 on both axes).
+export const applyFocusPoint = (track: MediaStreamTrack, point: { x: number; y: number }) =>
+  track.applyConstraints({ advanced: [{ focusMode: "manual", pointsOfInterest: [point] }] });
+
+// Device labels are only filled in once camera permission has been granted.
+export async function listCameras(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((device) => device.kind === "videoinput");
+}
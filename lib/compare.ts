@@ -0,0 +1,56 @@
+import type { AnalysisResult } from "./analysis";
+import { DietaryProfile, evaluateProfile, hasPreferences, isProfileCategory } from "./profile";
+
+// Enough for a shelf decision, and still readable side by side on a phone in landscape.
+export const MAX_COMPARED = 4;
+
+const normalizeIngredient = (ingredient: string) => ingredient.toLowerCase().replace(/\s+/g, " ").trim();
+
+// Every category any of the results reports, so the rows line up; the user's own categories come first.
+export function alignCategories(results: AnalysisResult[], profile?: DietaryProfile | null): string[] {
+  const categories = Array.from(new Set(results.flatMap((result) => Object.keys(result.classification))));
+  if (!profile || !hasPreferences(profile)) return categories;
+  return categories.sort((a, b) => Number(isProfileCategory(profile, b)) - Number(isProfileCategory(profile, a)));
+}
+
+// Per result, the ingredients that aren't in every other result, keyed as normalizeIngredient does.
+export function differingIngredients(results: AnalysisResult[]): Set<string>[] {
+  const sets = results.map((result) => new Set(result.ingredients.map(normalizeIngredient)));
+  return sets.map(
+    (own, index) => new Set(Array.from(own).filter((key) => sets.some((other, otherIndex) => otherIndex !== index && !other.has(key))))
+  );
+}
+
+export const isDifferingIngredient = (differing: Set<string>, ingredient: string) =>
+  differing.has(normalizeIngredient(ingredient));
+
+// The categories that decide the comparison: the user's diets, or everything when they haven't picked any.
+export function relevantCategories(categories: string[], profile?: DietaryProfile | null): string[] {
+  if (!profile || profile.diets.length === 0) return categories;
+  const relevant = categories.filter((category) => isProfileCategory(profile, category));
+  return relevant.length > 0 ? relevant : categories;
+}
+
+export interface ComparisonScore {
+  // How many relevant categories each result passes outright, in input order.
+  passes: number[];
+  total: number;
+  // Indexes of the best results for the user; empty when none passes anything or all are tied.
+  // A result the profile rules out (a failed diet or one of the user's allergens) is never among them.
+  best: number[];
+}
+
+export function scoreComparison(results: AnalysisResult[], profile?: DietaryProfile | null): ComparisonScore {
+  const categories = relevantCategories(alignCategories(results), profile);
+  const total = categories.length;
+  const passes = results.map(
+    (result) => categories.filter((category) => result.classification[category]?.verdict === "yes").length
+  );
+  const evaluations = profile && hasPreferences(profile) ? results.map((result) => evaluateProfile(result, profile)) : [];
+  const candidates = results.flatMap((_, index) => (evaluations[index]?.verdict === "unsafe" ? [] : [index]));
+  // Confirmed safe beats still-to-check whatever the pass counts; within each, more passes win.
+  const rank = (index: number) => (evaluations[index]?.verdict === "safe" ? total + 1 : 0) + passes[index];
+  const top = Math.max(0, ...candidates.map(rank));
+  const best = candidates.filter((index) => rank(index) === top);
+  return { passes, total, best: top === 0 || best.length === results.length ? [] : best };
+}
@@ -0,0 +1,67 @@
+const DB_NAME = "clearbyte";
+const DB_VERSION = 4;
+
+export const SCANS_STORE = "scans";
+export const OUTBOX_STORE = "outbox";
+export const LINKED_PRODUCTS_STORE = "linkedProducts";
+export const REPORTS_STORE = "reports";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Each entry upgrades the schema from the previous version; append new ones, never edit old ones.
+const MIGRATIONS: ((db: IDBDatabase) => void)[] = [
+  (db) => {
+    const scans = db.createObjectStore(SCANS_STORE, { keyPath: "id" });
+    scans.createIndex("createdAt", "createdAt");
+  },
+  (db) => {
+    const outbox = db.createObjectStore(OUTBOX_STORE, { keyPath: "id" });
+    outbox.createIndex("createdAt", "createdAt");
+  },
+  (db) => {
+    db.createObjectStore(LINKED_PRODUCTS_STORE, { keyPath: "barcode" });
+  },
+  (db) => {
+    const reports = db.createObjectStore(REPORTS_STORE, { keyPath: "id" });
+    reports.createIndex("createdAt", "createdAt");
+  },
+];
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available"));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          MIGRATIONS[version](request.result);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const store = db.transaction(storeName, mode).objectStore(storeName);
+  return promisifyRequest(run(store));
+}
@@ -0,0 +1,13 @@
+// Saves a Blob through a temporary link, which works for generated files in every browser we support.
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers start the download asynchronously, so keep the URL alive for a moment.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export const downloadText = (content: string, fileName: string, type: string) =>
+  downloadBlob(new Blob([content], { type }), fileName);
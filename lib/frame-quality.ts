@@ -0,0 +1,114 @@
+// Cheap per-frame quality scores for deciding when a live camera frame is worth capturing.
+// All scores are 0..1, computed on a small grayscale sample of the frame.
+
+export interface FrameQuality {
+  sharpness: number;
+  stability: number;
+  textDensity: number;
+}
+
+export interface LumaFrame {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+// Frames are downscaled to this width first; enough detail for print, cheap enough for every sample.
+export const SAMPLE_WIDTH = 240;
+
+// Laplacian variance of a crisp label at the sample size; anything above counts as fully sharp.
+const SHARP_VARIANCE = 250;
+// Mean absolute luma change between samples that counts as "moving".
+const MOTION_DIFFERENCE = 12;
+// Horizontal luma steps stronger than this are treated as glyph edges.
+const EDGE_STEP = 40;
+// Share of edge pixels typical for a dense ingredient list.
+const DENSE_TEXT_EDGES = 0.12;
+
+export const AUTO_CAPTURE_THRESHOLDS: FrameQuality = { sharpness: 0.6, stability: 0.8, textDensity: 0.4 };
+// Below this, a manual capture is flagged as probably unreadable.
+export const BLURRY_SHARPNESS = 0.3;
+
+export function toLuma(pixels: Uint8ClampedArray, width: number, height: number): LumaFrame {
+  const data = new Uint8Array(width * height);
+  for (let i = 0, p = 0; i < data.length; i++, p += 4) {
+    data[i] = 0.299 * pixels[p] + 0.587 * pixels[p + 1] + 0.114 * pixels[p + 2];
+  }
+  return { data, width, height };
+}
+
+export function laplacianVariance({ data, width, height }: LumaFrame): number {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = data[i - width] + data[i + width] + data[i - 1] + data[i + 1] - 4 * data[i];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+}
+
+export function meanDifference(a: LumaFrame, b: LumaFrame): number {
+  if (a.data.length !== b.data.length || a.data.length === 0) return Infinity;
+  let total = 0;
+  for (let i = 0; i < a.data.length; i++) total += Math.abs(a.data[i] - b.data[i]);
+  return total / a.data.length;
+}
+
+// Printed text is many short, strong horizontal luma steps; count the share of pixels that have one.
+export function edgeDensity({ data, width, height }: LumaFrame): number {
+  let edges = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 1; x < width; x++) {
+      const i = y * width + x;
+      if (Math.abs(data[i] - data[i - 1]) > EDGE_STEP) edges++;
+    }
+  }
+  return edges / Math.max(1, (width - 1) * height);
+}
+
+export const sharpnessScore = (frame: LumaFrame) => Math.min(1, laplacianVariance(frame) / SHARP_VARIANCE);
+
+export function assessFrame(frame: LumaFrame, previous: LumaFrame | null): FrameQuality {
+  return {
+    sharpness: sharpnessScore(frame),
+    stability: previous ? Math.max(0, 1 - meanDifference(frame, previous) / MOTION_DIFFERENCE) : 0,
+    textDensity: Math.min(1, edgeDensity(frame) / DENSE_TEXT_EDGES),
+  };
+}
+
+export const meetsThresholds = (quality: FrameQuality, thresholds = AUTO_CAPTURE_THRESHOLDS) =>
+  quality.sharpness >= thresholds.sharpness &&
+  quality.stability >= thresholds.stability &&
+  quality.textDensity >= thresholds.textDensity;
+
+// Draws the current video frame onto `canvas` at the sample size and reads it back as luma.
+export function sampleVideoFrame(video: HTMLVideoElement, canvas: HTMLCanvasElement): LumaFrame | null {
+  if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth) return null;
+  const width = Math.min(SAMPLE_WIDTH, video.videoWidth);
+  const height = Math.round((video.videoHeight / video.videoWidth) * width);
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(video, 0, 0, width, height);
+  return toLuma(ctx.getImageData(0, 0, width, height).data, width, height);
+}
+
+export type FramingHint = "closer" | "back" | "steady" | "ready";
+
+// What to tell the user to fix first: movement spoils every other score, then too little text in view,
+// then focus (a steady, text-filled but soft frame usually means the phone is too close to focus).
+export function framingHint(quality: FrameQuality, thresholds = AUTO_CAPTURE_THRESHOLDS): FramingHint {
+  if (quality.stability < thresholds.stability) return "steady";
+  if (quality.textDensity < thresholds.textDensity) return "closer";
+  if (quality.sharpness < thresholds.sharpness) return "back";
+  return "ready";
+}
@@ -0,0 +1,163 @@
+// Pure geometry for the capture review editor. Coordinates are normalized to 0..1 of the image
+// unless a function says otherwise.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Corners in order: top-left, top-right, bottom-right, bottom-left.
+export type Quad = [Point, Point, Point, Point];
+
+export type RectCorner = "topLeft" | "topRight" | "bottomRight" | "bottomLeft";
+
+export const FULL_RECT: Rect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const MIN_CROP_SIZE = 0.05;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+export const rectToQuad = ({ x, y, width, height }: Rect): Quad => [
+  { x, y },
+  { x: x + width, y },
+  { x: x + width, y: y + height },
+  { x, y: y + height },
+];
+
+// Shifts the rect by (dx, dy) without letting it leave the image.
+export function moveRect(rect: Rect, dx: number, dy: number): Rect {
+  return {
+    ...rect,
+    x: clamp(rect.x + dx, 0, 1 - rect.width),
+    y: clamp(rect.y + dy, 0, 1 - rect.height),
+  };
+}
+
+// Drags one corner to `point`, keeping the opposite corner fixed and the rect at least MIN_CROP_SIZE.
+export function resizeRect(rect: Rect, corner: RectCorner, point: Point): Rect {
+  let left = rect.x;
+  let top = rect.y;
+  let right = rect.x + rect.width;
+  let bottom = rect.y + rect.height;
+  const x = clamp(point.x, 0, 1);
+  const y = clamp(point.y, 0, 1);
+
+  if (corner === "topLeft" || corner === "bottomLeft") left = Math.min(x, right - MIN_CROP_SIZE);
+  if (corner === "topRight" || corner === "bottomRight") right = Math.max(x, left + MIN_CROP_SIZE);
+  if (corner === "topLeft" || corner === "topRight") top = Math.min(y, bottom - MIN_CROP_SIZE);
+  if (corner === "bottomLeft" || corner === "bottomRight") bottom = Math.max(y, top + MIN_CROP_SIZE);
+
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+export function movePoint(quad: Quad, index: number, point: Point): Quad {
+  const next = [...quad] as Quad;
+  next[index] = { x: clamp(point.x, 0, 1), y: clamp(point.y, 0, 1) };
+  return next;
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Output size for flattening a pixel-space quad: the average length of opposite edges.
+export function getQuadOutputSize([tl, tr, br, bl]: Quad): { width: number; height: number } {
+  return {
+    width: Math.max(1, Math.round((distance(tl, tr) + distance(bl, br)) / 2)),
+    height: Math.max(1, Math.round((distance(tl, bl) + distance(tr, br)) / 2)),
+  };
+}
+
+export const scaleQuad = (quad: Quad, width: number, height: number): Quad =>
+  quad.map(({ x, y }) => ({ x: x * width, y: y * height })) as Quad;
+
+// 3×3 homography as 9 numbers in row-major order, h[8] = 1.
+export type Homography = number[];
+
+function solveLinearSystem(matrix: number[][], vector: number[]): number[] {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) throw new Error("Degenerate quadrilateral");
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+  return a.map((row, i) => row[n] / row[i]);
+}
+
+// Homography taking each `from` corner to the matching `to` corner.
+export function computeHomography(from: Quad, to: Quad): Homography {
+  const matrix: number[][] = [];
+  const vector: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    matrix.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    vector.push(u);
+    matrix.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    vector.push(v);
+  }
+  return [...solveLinearSystem(matrix, vector), 1];
+}
+
+export function applyHomography(h: Homography, { x, y }: Point): Point {
+  const w = h[6] * x + h[7] * y + h[8];
+  return {
+    x: (h[0] * x + h[1] * y + h[2]) / w,
+    y: (h[3] * x + h[4] * y + h[5]) / w,
+  };
+}
+
+// Flattens the pixel-space `quad` of an RGBA image into an outWidth×outHeight rectangle, bilinearly sampled.
+export function warpPerspective(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  quad: Quad,
+  outWidth: number,
+  outHeight: number
+): Uint8ClampedArray {
+  const target: Quad = [
+    { x: 0, y: 0 },
+    { x: outWidth, y: 0 },
+    { x: outWidth, y: outHeight },
+    { x: 0, y: outHeight },
+  ];
+  // Map each output pixel back into the source, so every output pixel gets exactly one value.
+  const inverse = computeHomography(target, quad);
+  const output = new Uint8ClampedArray(outWidth * outHeight * 4);
+
+  for (let oy = 0; oy < outHeight; oy++) {
+    for (let ox = 0; ox < outWidth; ox++) {
+      const { x, y } = applyHomography(inverse, { x: ox + 0.5, y: oy + 0.5 });
+      const sx = clamp(x - 0.5, 0, width - 1);
+      const sy = clamp(y - 0.5, 0, height - 1);
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(x0 + 1, width - 1);
+      const y1 = Math.min(y0 + 1, height - 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      const out = (oy * outWidth + ox) * 4;
+      for (let c = 0; c < 4; c++) {
+        const top = pixels[(y0 * width + x0) * 4 + c] * (1 - fx) + pixels[(y0 * width + x1) * 4 + c] * fx;
+        const bottom = pixels[(y1 * width + x0) * 4 + c] * (1 - fx) + pixels[(y1 * width + x1) * 4 + c] * fx;
+        output[out + c] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+  return output;
+}
@@ -0,0 +1,59 @@
+import type { AnalysisResult } from "./analysis";
+import { SCANS_STORE, withStore } from "./db";
+
+export interface ScanRecord {
+  id: string;
+  createdAt: number;
+  // Small JPEG data URL, absent when the thumbnail couldn't be generated.
+  thumbnail?: string;
+  result: AnalysisResult;
+}
+
+export type ScanOutcome = "pass" | "fail" | "uncertain";
+export type ScanOutcomeFilter = ScanOutcome | "all";
+
+// "fail" if any category is a no, "uncertain" if any is uncertain, "pass" otherwise.
+export function getScanOutcome(result: AnalysisResult): ScanOutcome {
+  const verdicts = Object.values(result.classification).map(({ verdict }) => verdict);
+  if (verdicts.includes("no")) return "fail";
+  if (verdicts.includes("uncertain")) return "uncertain";
+  return "pass";
+}
+
+export async function saveScan(result: AnalysisResult, thumbnail?: string): Promise<ScanRecord> {
+  const record: ScanRecord = {
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    thumbnail,
+    result,
+  };
+  await withStore(SCANS_STORE, "readwrite", (store) => store.put(record));
+  return record;
+}
+
+// Puts a better result in place of a stored one, e.g. the server's answer to a scan that was first analyzed
+// offline, keeping its place in history. Saves a new record if the user has deleted the old one meanwhile.
+export async function replaceScan(id: string, result: AnalysisResult, thumbnail?: string): Promise<ScanRecord> {
+  const existing = await withStore<ScanRecord | undefined>(SCANS_STORE, "readonly", (store) => store.get(id));
+  if (!existing) return saveScan(result, thumbnail);
+  const record: ScanRecord = { ...existing, thumbnail: existing.thumbnail ?? thumbnail, result };
+  await withStore(SCANS_STORE, "readwrite", (store) => store.put(record));
+  return record;
+}
+
+export async function listScans(): Promise<ScanRecord[]> {
+  const records = await withStore<ScanRecord[]>(SCANS_STORE, "readonly", (store) => store.index("createdAt").getAll());
+  return records.reverse();
+}
+
+export async function deleteScan(id: string): Promise<void> {
+  await withStore(SCANS_STORE, "readwrite", (store) => store.delete(id));
+}
+
+export function filterScans(records: ScanRecord[], query: string, outcome: ScanOutcomeFilter): ScanRecord[] {
+  const needle = query.trim().toLowerCase();
+  return records.filter((record) =>
+    (outcome === "all" || getScanOutcome(record.result) === outcome) &&
+    (!needle || (record.result.text ?? "").toLowerCase().includes(needle))
+  );
+}
@@ -0,0 +1,59 @@
+export const LOCALES = ["en", "fr", "de", "es", "ar"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Each language in its own name, for the switcher.
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  fr: "Français",
+  de: "Deutsch",
+  es: "Español",
+  ar: "العربية",
+};
+
+const RTL_LOCALES: Locale[] = ["ar"];
+
+export const LOCALE_STORAGE_KEY = "clearbyte.locale";
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+export const getDirection = (locale: Locale): "ltr" | "rtl" => (RTL_LOCALES.includes(locale) ? "rtl" : "ltr");
+
+// Picks the best supported locale from an Accept-Language style list, e.g. "fr-CH,fr;q=0.9,en;q=0.8".
+export function matchLocale(acceptLanguage: string | null | undefined): Locale {
+  const ranked = (acceptLanguage ?? "")
+    .split(",")
+    .map((entry) => {
+      const [tag, ...params] = entry.trim().split(";");
+      const q = params.map((param) => param.trim()).find((param) => param.startsWith("q="));
+      return { language: tag.toLowerCase().split("-")[0], quality: q ? Number(q.slice(2)) || 0 : 1 };
+    })
+    .filter(({ language, quality }) => language && quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+  return ranked.map(({ language }) => language).find(isLocale) ?? DEFAULT_LOCALE;
+}
+
+// Languages the OCR can be told to expect on the label; independent of the UI language,
+// since imported products often carry a label in a language the user doesn't read.
+export const LABEL_LANGUAGES = ["auto", "en", "fr", "de", "es", "it", "nl", "pt", "tr", "ar"] as const;
+
+export type LabelLanguage = (typeof LABEL_LANGUAGES)[number];
+
+export const LABEL_LANGUAGE_NAMES: Record<Exclude<LabelLanguage, "auto">, string> = {
+  en: "English",
+  fr: "Français",
+  de: "Deutsch",
+  es: "Español",
+  it: "Italiano",
+  nl: "Nederlands",
+  pt: "Português",
+  tr: "Türkçe",
+  ar: "العربية",
+};
+
+export const LABEL_LANGUAGE_STORAGE_KEY = "clearbyte.labelLanguage";
+
+export const isLabelLanguage = (value: unknown): value is LabelLanguage =>
+  LABEL_LANGUAGES.includes(value as LabelLanguage);
@@ -0,0 +1,43 @@
+import { DEFAULT_LOCALE, Locale } from "./config";
+import en, { Messages } from "./messages/en";
+import fr from "./messages/fr";
+import de from "./messages/de";
+import es from "./messages/es";
+import ar from "./messages/ar";
+
+export * from "./config";
+export type { Messages };
+
+export type MessageKey = keyof Messages;
+
+export type TranslationParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: TranslationParams) => string;
+
+const CATALOGS: Record<Locale, Messages> = { en, fr, de, es, ar };
+
+export const getMessages = (locale: Locale): Messages => CATALOGS[locale] ?? CATALOGS[DEFAULT_LOCALE];
+
+// Fills {name} placeholders; unknown placeholders are left as they are so a missing param is visible.
+export function translate(messages: Messages, key: MessageKey, params?: TranslationParams): string {
+  const message = messages[key] ?? en[key] ?? key;
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+export const createTranslator = (locale: Locale): Translate => (key, params) =>
+  translate(getMessages(locale), key, params);
+
+// Categories come from the backend, so one we don't have a label for falls back to its own name.
+export function categoryLabel(t: Translate, category: string): string {
+  const key = `category.${category.toLowerCase().replace(/[-_\s]+/g, " ")}`;
+  if (key in en) return t(key as MessageKey);
+  return category.charAt(0).toUpperCase() + category.slice(1);
+}
+
+// Allergens are our own fixed list, but a stale stored profile could still name one we dropped.
+export function allergenLabel(t: Translate, allergen: string): string {
+  const key = `allergen.${allergen}`;
+  if (key in en) return t(key as MessageKey);
+  return allergen.charAt(0).toUpperCase() + allergen.slice(1);
+}
@@ -0,0 +1,299 @@
+import type { Messages } from "./en";
+
+const ar: Messages = {
+  "instructions.heading": "طريقة الاستخدام",
+  "instructions.title": "التعليمات",
+  "instructions.body":
+    "التقط صورة واضحة لقائمة المكونات بالكاميرا، أو ارفع صورة موجودة من جهازك. يمكن تصوير الملصقات الملتفة حول العبوة على عدة لقطات؛ رتّبها بالسحب ثم أرسلها للحصول على نتائج التصنيف.",
+  "instructions.disclaimerTitle": "تنبيه",
+  "instructions.disclaimer":
+    "قد تختلف الدقة. لا يضمن هذا النظام اكتشاف التلوث المتبادل ولا التحقق من طرق الذبح. يُرجى التحقق من النتائج بنفسك.",
+  "instructions.confirm": "فهمت",
+
+  "camera.denied": "تم رفض الوصول إلى الكاميرا",
+  "camera.deniedHint": "يُرجى السماح بالوصول إلى الكاميرا من إعدادات المتصفح لاستخدام هذه الميزة",
+  "camera.retry": "حاول مجددًا",
+  "camera.default": "الكاميرا الافتراضية",
+  "camera.numbered": "الكاميرا {index}",
+
+  "scanMode.label": "الملصق",
+  "scanMode.barcode": "الباركود",
+
+  "capture.analyzeOnDevice": "التحليل على الجهاز",
+  "capture.blurry": "تبدو هذه الصورة ضبابية. ثبّت الهاتف وأعد التقاطها لقراءة أفضل.",
+  "capture.tooManyShots": "يمكن أن يضم المسح {max} صور على الأكثر، لذا أُضيفت أول {added} فقط.",
+  "capture.offlineFailed": "تعذّرت قراءة الصورة على هذا الجهاز. يُرجى تجربة صورة أوضح.",
+
+  "review.title": "مراجعة الصورة",
+  "review.crop": "قص",
+  "review.perspective": "المنظور",
+  "review.rotate": "تدوير",
+  "review.retake": "إعادة الالتقاط",
+  "review.use": "استخدام الصورة",
+
+  "upload.uploading": "جارٍ الرفع… {percent}٪",
+  "upload.analyzing": "جارٍ تحليل المكونات…",
+  "upload.retrying": "{message} إعادة المحاولة ({attempt})…",
+  "upload.cancel": "إلغاء",
+  "upload.queued": "{message} أُضيف المسح إلى قائمة الانتظار وحُلّل على هذا الجهاز في الوقت الحالي.",
+  "upload.serverStarting": "خادم التحليل قيد التشغيل. قد يستغرق المسح الأول وقتًا أطول قليلًا.",
+
+  "errors.offline": "أنت غير متصل. حُفظ المسح وسيُرسل عند عودة الاتصال.",
+  "errors.timeout": "استغرق الخادم وقتًا طويلًا للرد.",
+  "errors.waking-up": "خادم التحليل قيد التنشيط. قد يستغرق ذلك حتى دقيقة بعد فترة من عدم الاستخدام.",
+  "errors.server": "واجه خادم التحليل مشكلة.",
+  "errors.unsupported-image": "تعذّر تحليل هذه الصورة. جرّب صورة JPEG أو PNG للمكونات.",
+  "errors.invalid-response": "أرسل الخادم نتيجة لا يفهمها هذا التطبيق.",
+  "errors.cancelled": "أُلغي الرفع.",
+
+  "results.title": "نتائج التحليل",
+  "results.close": "إغلاق النتائج",
+  "results.saveForBarcode": "حفظ للباركود {barcode}",
+  "results.linkFailed": "تعذّر حفظ هذا المنتج على جهازك.",
+
+  "analysis.offlineTitle": "تحليل دون اتصال",
+  "analysis.offlineBody": "قُرئ على هذا الجهاز بقواعد مكونات أساسية. النتائج أقل دقة من التحليل عبر الإنترنت.",
+  "analysis.correctedTitle": "نص مصحَّح",
+  "analysis.correctedBody": "أُعيد تصنيفه على هذا الجهاز بقواعد مكونات أساسية بعد تعديلك للنص المستخرج.",
+  "analysis.savedProduct": "منتج محفوظ",
+  "analysis.fromDatabase": "من قاعدة بيانات المنتجات",
+  "analysis.classification": "تصنيف الغذاء",
+  "analysis.uncertain": "غير مؤكد",
+
+  "profile.safe": "مناسب لك",
+  "profile.unsafe": "غير مناسب لك",
+  "profile.check": "تحقّق بنفسك",
+  "profile.title": "ملفك الغذائي",
+  "profile.intro": "أخبرنا بما يهمك وستوضح النتائج ما إذا كان المنتج مناسبًا لك. يمكنك تغيير ذلك في أي وقت.",
+  "profile.diet": "النظام الغذائي",
+  "profile.allergies": "الحساسية",
+  "profile.hideOthers": "عرض الأنظمة الغذائية التي اخترتها فقط",
+  "profile.save": "حفظ الملف",
+  "profile.cancel": "إلغاء",
+  "profile.reason.missing": "لا توجد نتيجة لـ {diet}",
+  "profile.reason.not": "ليس {diet}",
+  "profile.reason.uncertain": "{diet} غير مؤكد",
+  "profile.reason.noIngredients": "لا توجد مكونات لفحص مسببات الحساسية",
+  "profile.reason.allergen": "يحتوي على {allergen}: {ingredients}",
+
+  "text.title": "النص المستخرج",
+  "text.correct": "تصحيح",
+  "text.cancel": "إلغاء",
+  "text.rerun": "إعادة التصنيف",
+  "text.additive": "مضاف غذائي {codes}",
+  "text.whatItIs": "ما هو",
+  "text.noNotes": "لا توجد ملاحظات عن هذا المكوّن بعد.",
+  "text.affected": "الفئات المتأثرة",
+  "text.noneAffected": "لم يتأثر أي من الفئات المذكورة بهذا المكوّن.",
+  "text.learnMore": "المزيد عن {name}",
+  "text.expand": "عرض النص كاملاً",
+  "text.collapse": "عرض نص أقل",
+
+  "compare.title": "مقارنة المنتجات",
+  "compare.add": "إضافة إلى المقارنة",
+  "compare.added": "ضمن المقارنة",
+  "compare.open": "مقارنة ({count})",
+  "compare.needMore": "امسح منتجًا آخر أو اختره من السجل للمقارنة.",
+  "compare.full": "يمكنك مقارنة {max} منتجات كحد أقصى في المرة الواحدة.",
+  "compare.product": "المنتج {index}",
+  "compare.best": "الأنسب لك",
+  "compare.passes": "يجتاز {count} من {total}",
+  "compare.remove": "إزالة من المقارنة",
+  "compare.clear": "مسح الكل",
+  "compare.ingredients": "المكونات",
+  "compare.differenceHint": "المكونات المظللة غير موجودة في كل المنتجات.",
+  "compare.noIngredients": "لا توجد مكونات",
+  "compare.notReported": "غير مذكور",
+
+  "ingredients.title": "دليل المكونات",
+  "ingredients.intro": "مما تُصنع المضافات والمكونات الشائعة، وأي الأنظمة الغذائية تتأثر بها. متاح دون اتصال.",
+  "ingredients.search": "ابحث بالاسم أو رقم E",
+  "ingredients.noMatches": "لا توجد مكونات تطابق بحثك.",
+  "ingredients.version": "قاعدة المعرفة، الإصدار {version}",
+  "ingredients.origin": "المصدر",
+  "ingredients.origin.plant": "نباتي",
+  "ingredients.origin.animal": "حيواني",
+  "ingredients.origin.synthetic": "صناعي",
+  "ingredients.origin.variable": "نباتي أو حيواني أو صناعي",
+  "ingredients.affects": "الأنظمة الغذائية المتأثرة",
+  "ingredients.affectsNone": "لا يؤثر في أي من الأنظمة الغذائية التي يفحصها ClearByte.",
+  "ingredients.synonyms": "يُذكر أيضًا باسم",
+  "ingredients.all": "كل المكونات",
+  "ingredients.scan": "مسح منتج",
+  "ingredients.browse": "تصفح دليل المكونات",
+
+  "report.action": "الإبلاغ عن مشكلة",
+  "report.categoryTitle": "ما الخطأ في {category}؟",
+  "report.textTitle": "ما الخطأ في النص المستخرج؟",
+  "report.expected": "يجب أن يكون",
+  "report.verdict.yes": "مناسب",
+  "report.verdict.no": "غير مناسب",
+  "report.verdict.uncertain": "لا يمكن معرفته من الملصق",
+  "report.current": "{verdict} (الحالي)",
+  "report.correctedText": "ما هو مكتوب فعلًا على الملصق",
+  "report.note": "ملاحظة (اختيارية)",
+  "report.includeImage": "إرفاق صورة الملصق",
+  "report.imageHint": "لا تُرسل الصورة إلا إذا حددت هذا الخيار، وتُحذف من هذا الجهاز بعد إرسال البلاغ.",
+  "report.submit": "إرسال البلاغ",
+  "report.cancel": "إلغاء",
+  "report.thanks": "شكرًا على بلاغك. يمكنك متابعة حالته في السجل.",
+  "report.saveFailed": "تعذّر حفظ بلاغك على هذا الجهاز.",
+  "report.listTitle": "بلاغاتك",
+  "report.open": "البلاغات",
+  "report.empty": "ستظهر هنا المشكلات التي تبلغ عنها.",
+  "report.textTarget": "النص المستخرج",
+  "report.withImage": "مع الصورة",
+  "report.status.pending": "بانتظار الإرسال",
+  "report.status.sent": "أُرسل",
+  "report.status.failed": "تعذّر الإرسال",
+
+  "history.title": "السجل",
+  "history.search": "ابحث في النص المستخرج",
+  "history.filter.all": "الكل",
+  "history.filter.pass": "مطابقة",
+  "history.filter.fail": "غير مطابقة",
+  "history.filter.uncertain": "غير مؤكدة",
+  "history.unavailable": "السجل غير متاح على هذا الجهاز.",
+  "history.empty": "ستظهر عمليات المسح هنا.",
+  "history.noMatches": "لا توجد عمليات مسح تطابق بحثك.",
+  "history.thumbnail": "صورة مصغرة للمسح",
+  "history.noText": "لم يُستخرج أي نص",
+
+  "barcode.notFound": "المنتج غير موجود",
+  "barcode.notFoundBody": "لا نعرف الرمز الشريطي {barcode} بعد. صوّر قائمة المكونات بدلاً من ذلك ويمكنك حفظ النتيجة لهذا الرمز.",
+  "barcode.scanAgain": "امسح مرة أخرى",
+  "barcode.photograph": "صوّر المكونات",
+  "barcode.unavailable": "مسح الرموز الشريطية غير متاح على هذا الجهاز",
+  "barcode.lookingUp": "جارٍ البحث عن {barcode}…",
+  "barcode.point": "وجّه الكاميرا نحو رمز شريطي",
+
+  "outbox.waitingOne": "مسح واحد بانتظار الاتصال",
+  "outbox.waiting": "{count} عمليات مسح بانتظار الاتصال",
+  "outbox.analyzedOne": "تم تحليل مسح واحد من قائمة الانتظار",
+  "outbox.analyzed": "تم تحليل {count} عمليات مسح من قائمة الانتظار",
+  "outbox.failed": "تعذر تحليل {count}",
+  "outbox.both": "{analyzed}، {failed}",
+  "outbox.retry": "أعد المحاولة الآن",
+  "outbox.view": "عرض",
+  "outbox.notifyOne": "تم تحليل المسح الذي كان في قائمة الانتظار",
+  "outbox.notify": "تم تحليل {count} عمليات مسح من قائمة الانتظار",
+
+  "batch.title": "التحليل الجماعي",
+  "batch.progress": "تم تحليل {finished} من {total}",
+  "batch.drop": "أفلت صور المنتجات هنا أو الصقها أو انقر لاختيار الملفات",
+  "batch.concurrency": "يتم تحليل ما يصل إلى {count} صور في المرة الواحدة",
+  "batch.file": "الملف",
+  "batch.status": "الحالة",
+  "batch.ingredients": "المكونات",
+  "batch.status.queued": "في الانتظار",
+  "batch.status.processing": "جارٍ التحليل…",
+  "batch.status.done": "تم",
+  "batch.status.failed": "فشل",
+
+  "share.share": "مشاركة",
+  "share.copyLink": "نسخ الرابط",
+  "share.copied": "تم النسخ",
+  "share.tooLarge": "هذه النتيجة أكبر من أن تُشارك كرابط. صدّرها بصيغة PNG أو PDF بدلاً من ذلك.",
+  "share.sheetTitle": "{title} — ClearByte",
+  "share.untitled": "مسح المكونات",
+  "share.verdict.yes": "نعم",
+  "share.verdict.no": "لا",
+  "share.verdict.uncertain": "غير واضح",
+  "share.summaryItem": "{category}: {verdict}",
+  "share.noCategories": "لم تُصنَّف أي فئة",
+  "share.cardFooter": "حُلّل في {date} · راجع العبوة عند الشك",
+  "share.sharedResult": "نتيجة ClearByte مُشاركة",
+  "share.scanYourOwn": "امسح منتجك الخاص",
+  "share.notFound": "النتيجة غير موجودة",
+
+  "category.vegan": "نباتي صرف",
+  "category.vegetarian": "نباتي",
+  "category.halal": "حلال",
+  "category.kosher": "كوشر",
+  "category.gluten free": "خالٍ من الغلوتين",
+  "category.lactose free": "خالٍ من اللاكتوز",
+
+  "allergen.milk": "الحليب",
+  "allergen.eggs": "البيض",
+  "allergen.peanuts": "الفول السوداني",
+  "allergen.tree nuts": "المكسرات",
+  "allergen.soy": "الصويا",
+  "allergen.gluten": "الغلوتين",
+  "allergen.fish": "السمك",
+  "allergen.shellfish": "المحار والقشريات",
+  "allergen.sesame": "السمسم",
+  "allergen.mustard": "الخردل",
+  "allergen.celery": "الكرفس",
+  "allergen.sulphites": "الكبريتيت",
+
+  "language.app": "لغة التطبيق",
+  "language.label": "لغة الملصق",
+  "language.labelHint": "يساعد الخادم على قراءة الملصقات المطبوعة بلغة أخرى.",
+  "language.auto": "اكتشاف تلقائي",
+
+  "autoCapture.toggle": "التقاط تلقائي",
+  "autoCapture.sharp": "وضوح",
+  "autoCapture.steady": "ثبات",
+  "autoCapture.text": "نص",
+  "autoCapture.holdStill": "لا تتحرك…",
+  "autoCapture.point": "وجّه الكاميرا نحو المكونات",
+
+  "guidance.closer": "اقترب من قائمة المكونات",
+  "guidance.back": "ابتعد قليلًا لتتمكن الكاميرا من التركيز",
+  "guidance.steady": "ثبّت الهاتف",
+  "guidance.ready": "لا تتحرك، جارٍ التقاط الصورة",
+  "guidance.readyManual": "الإطار جيد. التقط الصورة الآن.",
+  "guidance.captured": "التُقطت الصورة. راجع القص ثم اختر استخدام الصورة.",
+
+  "a11y.flash": "الفلاش",
+  "a11y.settings": "الملف الغذائي والإعدادات",
+  "a11y.history": "سجل المسح",
+  "a11y.switchCamera": "تبديل الكاميرا",
+  "a11y.upload": "رفع صور",
+  "a11y.capture": "التقاط صورة",
+  "a11y.submit": "تحليل الصور",
+  "a11y.viewfinder": "عدسة الكاميرا. اضغط Enter أو المس للتركيز.",
+  "a11y.focusing": "جارٍ التركيز",
+  "a11y.shotAdded": "أُضيفت الصورة {count} من {max}",
+  "a11y.shot": "الصورة {index}",
+  "a11y.removeShot": "إزالة الصورة {index}",
+  "a11y.clearShots": "إزالة كل الصور",
+  "a11y.dismiss": "إغلاق",
+  "a11y.deleteScan": "حذف المسح",
+  "a11y.camera": "الكاميرا",
+  "a11y.zoom": "التكبير",
+  "a11y.exposure": "التعريض",
+  "a11y.back": "العودة إلى الكاميرا",
+  "a11y.retryFile": "أعد تحليل {name}",
+  "a11y.removeFile": "إزالة {name}",
+  "a11y.clearFiles": "إزالة جميع الملفات",
+
+  "speech.readAloud": "قراءة بصوت عالٍ",
+  "speech.stop": "إيقاف القراءة",
+  "speech.resultReady": "النتائج جاهزة.",
+  "speech.category": "{category}: {verdict}.",
+  "speech.because": "بسبب: {ingredients}.",
+  "speech.yes": "نعم",
+  "speech.no": "لا",
+  "speech.noCategories": "لم تُصنَّف أي فئة.",
+
+  "settings.title": "إمكانية الوصول",
+  "settings.voiceGuidance": "إرشاد صوتي أثناء توجيه الكاميرا",
+  "settings.readResults": "قراءة النتائج تلقائيًا",
+  "settings.highContrast": "مظهر عالي التباين",
+  "settings.speechUnavailable": "النطق غير متاح في هذا المتصفح.",
+
+  "shortcuts.title": "اختصارات لوحة المفاتيح",
+  "shortcuts.hint": "اضغط ? لعرض اختصارات لوحة المفاتيح",
+  "shortcuts.mode": "التبديل بين الملصق والباركود",
+  "shortcuts.autoCapture": "تشغيل الالتقاط التلقائي أو إيقافه",
+  "shortcuts.focus": "التركيز على وسط الإطار",
+  "shortcuts.close": "إغلاق اللوحة المفتوحة",
+  "shortcuts.help": "إظهار هذه القائمة أو إخفاؤها",
+
+  "desktop.hint": "استخدم واجهة الكاميرا هذه لالتقاط الصور وتحليلها",
+  "desktop.batchPrompt": "لديك صور كثيرة للتدقيق؟",
+  "desktop.batchLink": "فتح التحليل الجماعي",
+};
+
+export default ar;
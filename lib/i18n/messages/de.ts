@@ -0,0 +1,299 @@
+import type { Messages } from "./en";
+
+const de: Messages = {
+  "instructions.heading": "So funktioniert's",
+  "instructions.title": "Anleitung",
+  "instructions.body":
+    "Fotografiere die Zutatenliste gut lesbar mit der Kamera oder lade ein vorhandenes Bild von deinem Gerät hoch. Etiketten, die um eine Verpackung herumlaufen, kannst du in mehreren Aufnahmen fotografieren; bring sie in die richtige Reihenfolge und sende sie dann zur Einordnung ab.",
+  "instructions.disclaimerTitle": "Hinweis",
+  "instructions.disclaimer":
+    "Die Genauigkeit kann schwanken. Dieses System kann Kreuzkontaminationen nicht sicher erkennen und keine Schlachtmethoden überprüfen. Bitte prüfe die Ergebnisse selbst.",
+  "instructions.confirm": "Verstanden",
+
+  "camera.denied": "Kamerazugriff verweigert",
+  "camera.deniedHint": "Bitte erlaube den Kamerazugriff in den Browsereinstellungen, um diese Funktion zu nutzen",
+  "camera.retry": "Erneut versuchen",
+  "camera.default": "Standardkamera",
+  "camera.numbered": "Kamera {index}",
+
+  "scanMode.label": "Etikett",
+  "scanMode.barcode": "Barcode",
+
+  "capture.analyzeOnDevice": "Auf dem Gerät analysieren",
+  "capture.blurry": "Dieses Foto wirkt unscharf. Halte das Telefon ruhig und nimm es erneut auf, damit es besser gelesen werden kann.",
+  "capture.tooManyShots": "Ein Scan kann höchstens {max} Fotos enthalten, daher wurden nur die ersten {added} hinzugefügt.",
+  "capture.offlineFailed": "Das Bild konnte auf diesem Gerät nicht gelesen werden. Bitte versuche es mit einem schärferen Foto.",
+
+  "review.title": "Foto prüfen",
+  "review.crop": "Zuschneiden",
+  "review.perspective": "Perspektive",
+  "review.rotate": "Drehen",
+  "review.retake": "Neu aufnehmen",
+  "review.use": "Foto verwenden",
+
+  "upload.uploading": "Wird hochgeladen… {percent} %",
+  "upload.analyzing": "Zutaten werden analysiert…",
+  "upload.retrying": "{message} Neuer Versuch ({attempt})…",
+  "upload.cancel": "Abbrechen",
+  "upload.queued": "{message} Der Scan wurde vorgemerkt und in der Zwischenzeit auf diesem Gerät analysiert.",
+  "upload.serverStarting": "Der Analyseserver startet gerade. Dein erster Scan kann etwas länger dauern.",
+
+  "errors.offline": "Du bist offline. Der Scan wurde gespeichert und wird gesendet, sobald du wieder online bist.",
+  "errors.timeout": "Der Server hat zu lange für die Antwort gebraucht.",
+  "errors.waking-up": "Der Analyseserver wird gerade geweckt. Nach einer Ruhephase kann das bis zu einer Minute dauern.",
+  "errors.server": "Beim Analyseserver ist ein Fehler aufgetreten.",
+  "errors.unsupported-image": "Dieses Bild konnte nicht analysiert werden. Versuche es mit einem JPEG- oder PNG-Foto der Zutaten.",
+  "errors.invalid-response": "Der Server hat ein Ergebnis gesendet, das diese App nicht versteht.",
+  "errors.cancelled": "Hochladen abgebrochen.",
+
+  "results.title": "Analyseergebnisse",
+  "results.close": "Ergebnisse schließen",
+  "results.saveForBarcode": "Für Barcode {barcode} speichern",
+  "results.linkFailed": "Dieses Produkt konnte nicht auf deinem Gerät gespeichert werden.",
+
+  "analysis.offlineTitle": "Offline-Analyse",
+  "analysis.offlineBody": "Auf diesem Gerät mit einfachen Zutatenregeln gelesen. Die Ergebnisse sind ungenauer als die Online-Analyse.",
+  "analysis.correctedTitle": "Korrigierter Text",
+  "analysis.correctedBody": "Nach deiner Korrektur des erkannten Texts auf diesem Gerät mit einfachen Zutatenregeln neu eingeordnet.",
+  "analysis.savedProduct": "Gespeichertes Produkt",
+  "analysis.fromDatabase": "aus der Produktdatenbank",
+  "analysis.classification": "Lebensmittel-Einordnung",
+  "analysis.uncertain": "Unklar",
+
+  "profile.safe": "Für dich geeignet",
+  "profile.unsafe": "Nicht für dich geeignet",
+  "profile.check": "Selbst prüfen",
+  "profile.title": "Dein Ernährungsprofil",
+  "profile.intro": "Sag uns, worauf es dir ankommt, und die Ergebnisse zeigen, ob ein Produkt für dich geeignet ist. Du kannst das jederzeit ändern.",
+  "profile.diet": "Ernährung",
+  "profile.allergies": "Allergien",
+  "profile.hideOthers": "Nur meine ausgewählten Ernährungsformen anzeigen",
+  "profile.save": "Profil speichern",
+  "profile.cancel": "Abbrechen",
+  "profile.reason.missing": "Kein Ergebnis für {diet}",
+  "profile.reason.not": "Nicht {diet}",
+  "profile.reason.uncertain": "{diet} ist unklar",
+  "profile.reason.noIngredients": "Keine Zutaten zum Prüfen auf Allergene",
+  "profile.reason.allergen": "Enthält {allergen}: {ingredients}",
+
+  "text.title": "Erkannter Text",
+  "text.correct": "Korrigieren",
+  "text.cancel": "Abbrechen",
+  "text.rerun": "Neu einordnen",
+  "text.additive": "Lebensmittelzusatzstoff {codes}",
+  "text.whatItIs": "Was es ist",
+  "text.noNotes": "Zu dieser Zutat gibt es noch keine Hinweise.",
+  "text.affected": "Betroffene Kategorien",
+  "text.noneAffected": "Keine der gemeldeten Kategorien ist von dieser Zutat betroffen.",
+  "text.learnMore": "Mehr über {name}",
+  "text.expand": "Ganzen Text anzeigen",
+  "text.collapse": "Weniger Text anzeigen",
+
+  "compare.title": "Produkte vergleichen",
+  "compare.add": "Zum Vergleich hinzufügen",
+  "compare.added": "Im Vergleich",
+  "compare.open": "Vergleichen ({count})",
+  "compare.needMore": "Scanne ein weiteres Produkt oder wähle eines aus dem Verlauf, um zu vergleichen.",
+  "compare.full": "Du kannst bis zu {max} Produkte gleichzeitig vergleichen.",
+  "compare.product": "Produkt {index}",
+  "compare.best": "Am besten für dich",
+  "compare.passes": "Erfüllt {count} von {total}",
+  "compare.remove": "Aus dem Vergleich entfernen",
+  "compare.clear": "Leeren",
+  "compare.ingredients": "Zutaten",
+  "compare.differenceHint": "Hervorgehobene Zutaten sind nicht in jedem Produkt enthalten.",
+  "compare.noIngredients": "Keine Zutaten erkannt",
+  "compare.notReported": "Nicht angegeben",
+
+  "ingredients.title": "Zutatenlexikon",
+  "ingredients.intro": "Woraus gängige Zusatzstoffe und Zutaten bestehen und welche Ernährungsweisen sie betreffen. Auch offline verfügbar.",
+  "ingredients.search": "Nach Name oder E-Nummer suchen",
+  "ingredients.noMatches": "Keine Zutat passt zu deiner Suche.",
+  "ingredients.version": "Wissensdatenbank, Version {version}",
+  "ingredients.origin": "Herkunft",
+  "ingredients.origin.plant": "Pflanzlich",
+  "ingredients.origin.animal": "Tierisch",
+  "ingredients.origin.synthetic": "Synthetisch",
+  "ingredients.origin.variable": "Pflanzlich, tierisch oder synthetisch",
+  "ingredients.affects": "Betroffene Ernährungsweisen",
+  "ingredients.affectsNone": "Betrifft keine der Ernährungsweisen, die ClearByte prüft.",
+  "ingredients.synonyms": "Auch angegeben als",
+  "ingredients.all": "Alle Zutaten",
+  "ingredients.scan": "Produkt scannen",
+  "ingredients.browse": "Zutatenlexikon durchsuchen",
+
+  "report.action": "Problem melden",
+  "report.categoryTitle": "Was stimmt bei {category} nicht?",
+  "report.textTitle": "Was stimmt am erkannten Text nicht?",
+  "report.expected": "Richtig wäre",
+  "report.verdict.yes": "Geeignet",
+  "report.verdict.no": "Nicht geeignet",
+  "report.verdict.uncertain": "Anhand des Etiketts nicht erkennbar",
+  "report.current": "{verdict} (aktuell)",
+  "report.correctedText": "Was tatsächlich auf dem Etikett steht",
+  "report.note": "Anmerkung (optional)",
+  "report.includeImage": "Foto des Etiketts mitsenden",
+  "report.imageHint": "Das Foto wird nur mitgesendet, wenn du das ankreuzt, und nach dem Senden von diesem Gerät gelöscht.",
+  "report.submit": "Meldung senden",
+  "report.cancel": "Abbrechen",
+  "report.thanks": "Danke für deine Meldung. Ihren Status findest du im Verlauf.",
+  "report.saveFailed": "Deine Meldung konnte auf diesem Gerät nicht gespeichert werden.",
+  "report.listTitle": "Deine Meldungen",
+  "report.open": "Meldungen",
+  "report.empty": "Gemeldete Probleme erscheinen hier.",
+  "report.textTarget": "Erkannter Text",
+  "report.withImage": "Mit Foto",
+  "report.status.pending": "Wartet auf Versand",
+  "report.status.sent": "Gesendet",
+  "report.status.failed": "Konnte nicht gesendet werden",
+
+  "history.title": "Verlauf",
+  "history.search": "Erkannten Text durchsuchen",
+  "history.filter.all": "Alle",
+  "history.filter.pass": "Bestanden",
+  "history.filter.fail": "Nicht bestanden",
+  "history.filter.uncertain": "Unklar",
+  "history.unavailable": "Der Verlauf ist auf diesem Gerät nicht verfügbar.",
+  "history.empty": "Deine Scans erscheinen hier.",
+  "history.noMatches": "Keine Scans passen zu deiner Suche.",
+  "history.thumbnail": "Vorschaubild des Scans",
+  "history.noText": "Kein Text erkannt",
+
+  "barcode.notFound": "Produkt nicht gefunden",
+  "barcode.notFoundBody": "Den Barcode {barcode} kennen wir noch nicht. Fotografiere stattdessen die Zutatenliste, dann kannst du das Ergebnis für diesen Barcode speichern.",
+  "barcode.scanAgain": "Erneut scannen",
+  "barcode.photograph": "Zutaten fotografieren",
+  "barcode.unavailable": "Barcode-Scannen ist auf diesem Gerät nicht verfügbar",
+  "barcode.lookingUp": "Suche {barcode}…",
+  "barcode.point": "Richte die Kamera auf einen Barcode",
+
+  "outbox.waitingOne": "1 Scan wartet auf Verbindung",
+  "outbox.waiting": "{count} Scans warten auf Verbindung",
+  "outbox.analyzedOne": "1 wartender Scan analysiert",
+  "outbox.analyzed": "{count} wartende Scans analysiert",
+  "outbox.failed": "{count} konnten nicht analysiert werden",
+  "outbox.both": "{analyzed}, {failed}",
+  "outbox.retry": "Jetzt erneut versuchen",
+  "outbox.view": "Ansehen",
+  "outbox.notifyOne": "Dein wartender Scan wurde analysiert",
+  "outbox.notify": "{count} wartende Scans wurden analysiert",
+
+  "batch.title": "Stapelanalyse",
+  "batch.progress": "{finished} von {total} analysiert",
+  "batch.drop": "Produktfotos hier ablegen, einfügen oder klicken, um Dateien auszuwählen",
+  "batch.concurrency": "Bis zu {count} Fotos werden gleichzeitig analysiert",
+  "batch.file": "Datei",
+  "batch.status": "Status",
+  "batch.ingredients": "Zutaten",
+  "batch.status.queued": "Wartend",
+  "batch.status.processing": "Wird analysiert…",
+  "batch.status.done": "Fertig",
+  "batch.status.failed": "Fehlgeschlagen",
+
+  "share.share": "Teilen",
+  "share.copyLink": "Link kopieren",
+  "share.copied": "Kopiert",
+  "share.tooLarge": "Dieses Ergebnis ist zu groß für einen Link. Exportiere es stattdessen als PNG oder PDF.",
+  "share.sheetTitle": "{title} — ClearByte",
+  "share.untitled": "Zutaten-Scan",
+  "share.verdict.yes": "Ja",
+  "share.verdict.no": "Nein",
+  "share.verdict.uncertain": "Unklar",
+  "share.summaryItem": "{category}: {verdict}",
+  "share.noCategories": "Keine Kategorien wurden eingestuft",
+  "share.cardFooter": "Analysiert am {date} · Im Zweifel die Verpackung prüfen",
+  "share.sharedResult": "Geteiltes ClearByte-Ergebnis",
+  "share.scanYourOwn": "Scanne dein eigenes Produkt",
+  "share.notFound": "Ergebnis nicht gefunden",
+
+  "category.vegan": "Vegan",
+  "category.vegetarian": "Vegetarisch",
+  "category.halal": "Halal",
+  "category.kosher": "Koscher",
+  "category.gluten free": "Glutenfrei",
+  "category.lactose free": "Laktosefrei",
+
+  "allergen.milk": "Milch",
+  "allergen.eggs": "Eier",
+  "allergen.peanuts": "Erdnüsse",
+  "allergen.tree nuts": "Schalenfrüchte",
+  "allergen.soy": "Soja",
+  "allergen.gluten": "Gluten",
+  "allergen.fish": "Fisch",
+  "allergen.shellfish": "Schalentiere",
+  "allergen.sesame": "Sesam",
+  "allergen.mustard": "Senf",
+  "allergen.celery": "Sellerie",
+  "allergen.sulphites": "Sulfite",
+
+  "language.app": "App-Sprache",
+  "language.label": "Sprache des Etiketts",
+  "language.labelHint": "Hilft dem Server, Etiketten in einer anderen Sprache zu lesen.",
+  "language.auto": "Automatisch erkennen",
+
+  "autoCapture.toggle": "Auto-Aufnahme",
+  "autoCapture.sharp": "Scharf",
+  "autoCapture.steady": "Ruhig",
+  "autoCapture.text": "Text",
+  "autoCapture.holdStill": "Stillhalten…",
+  "autoCapture.point": "Auf die Zutaten richten",
+
+  "guidance.closer": "Geh näher an die Zutaten heran",
+  "guidance.back": "Geh etwas zurück, damit die Kamera scharf stellen kann",
+  "guidance.steady": "Ruhig halten",
+  "guidance.ready": "Stillhalten, Foto wird aufgenommen",
+  "guidance.readyManual": "Sieht gut aus. Jetzt das Foto aufnehmen.",
+  "guidance.captured": "Foto aufgenommen. Prüfe den Ausschnitt und wähle dann Foto verwenden.",
+
+  "a11y.flash": "Blitz",
+  "a11y.settings": "Ernährungsprofil und Einstellungen",
+  "a11y.history": "Scan-Verlauf",
+  "a11y.switchCamera": "Kamera wechseln",
+  "a11y.upload": "Fotos hochladen",
+  "a11y.capture": "Foto aufnehmen",
+  "a11y.submit": "Fotos analysieren",
+  "a11y.viewfinder": "Kamerasucher. Zum Scharfstellen Eingabe drücken oder tippen.",
+  "a11y.focusing": "Stelle scharf",
+  "a11y.shotAdded": "Foto {count} von {max} hinzugefügt",
+  "a11y.shot": "Foto {index}",
+  "a11y.removeShot": "Foto {index} entfernen",
+  "a11y.clearShots": "Alle Fotos entfernen",
+  "a11y.dismiss": "Schließen",
+  "a11y.deleteScan": "Scan löschen",
+  "a11y.camera": "Kamera",
+  "a11y.zoom": "Zoom",
+  "a11y.exposure": "Belichtung",
+  "a11y.back": "Zurück zur Kamera",
+  "a11y.retryFile": "{name} erneut analysieren",
+  "a11y.removeFile": "{name} entfernen",
+  "a11y.clearFiles": "Alle Dateien entfernen",
+
+  "speech.readAloud": "Vorlesen",
+  "speech.stop": "Vorlesen beenden",
+  "speech.resultReady": "Ergebnisse liegen vor.",
+  "speech.category": "{category}: {verdict}.",
+  "speech.because": "Wegen: {ingredients}.",
+  "speech.yes": "ja",
+  "speech.no": "nein",
+  "speech.noCategories": "Es wurden keine Kategorien eingeordnet.",
+
+  "settings.title": "Barrierefreiheit",
+  "settings.voiceGuidance": "Sprachhilfe beim Ausrichten des Etiketts",
+  "settings.readResults": "Ergebnisse automatisch vorlesen",
+  "settings.highContrast": "Design mit hohem Kontrast",
+  "settings.speechUnavailable": "Sprachausgabe ist in diesem Browser nicht verfügbar.",
+
+  "shortcuts.title": "Tastenkürzel",
+  "shortcuts.hint": "Drücke ? für Tastenkürzel",
+  "shortcuts.mode": "Zwischen Etikett und Barcode wechseln",
+  "shortcuts.autoCapture": "Auto-Aufnahme ein- oder ausschalten",
+  "shortcuts.focus": "Bildmitte scharf stellen",
+  "shortcuts.close": "Geöffnetes Fenster schließen",
+  "shortcuts.help": "Diese Liste ein- oder ausblenden",
+
+  "desktop.hint": "Nutze diese Kameraoberfläche, um Bilder aufzunehmen und zu analysieren",
+  "desktop.batchPrompt": "Viele Fotos zu prüfen?",
+  "desktop.batchLink": "Stapelanalyse öffnen",
+};
+
+export default de;
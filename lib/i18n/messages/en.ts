@@ -0,0 +1,301 @@
+// The reference catalog: every other locale must provide the same keys.
+// Placeholders in braces, e.g. {count}, are filled in by translate().
+const en = {
+  "instructions.heading": "How to Use",
+  "instructions.title": "Instructions",
+  "instructions.body":
+    "Take a clear picture of the ingredients list using the camera, or upload an existing image from your device. Labels that wrap around a package can be photographed in several shots; drag them into order, then submit to get the classification results.",
+  "instructions.disclaimerTitle": "Disclaimer",
+  "instructions.disclaimer":
+    "Accuracy may vary. This system cannot guarantee detection of cross-contamination or verify slaughter methods. Results should be verified independently.",
+  "instructions.confirm": "Got It",
+
+  "camera.denied": "Camera access denied",
+  "camera.deniedHint": "Please allow camera access in your browser settings to use this feature",
+  "camera.retry": "Try Again",
+  "camera.default": "Default camera",
+  "camera.numbered": "Camera {index}",
+
+  "scanMode.label": "Label",
+  "scanMode.barcode": "Barcode",
+
+  "capture.analyzeOnDevice": "Analyze on device",
+  "capture.blurry": "This photo looks blurry. Hold the phone steady and retake it for a better reading.",
+  "capture.tooManyShots": "A scan can have at most {max} photos, so only the first {added} were added.",
+  "capture.offlineFailed": "Could not read the image on this device. Please try a clearer picture.",
+
+  "review.title": "Review photo",
+  "review.crop": "Crop",
+  "review.perspective": "Perspective",
+  "review.rotate": "Rotate",
+  "review.retake": "Retake",
+  "review.use": "Use Photo",
+
+  "upload.uploading": "Uploading… {percent}%",
+  "upload.analyzing": "Analyzing ingredients…",
+  "upload.retrying": "{message} Retrying ({attempt})…",
+  "upload.cancel": "Cancel",
+  "upload.queued": "{message} The scan was queued and analyzed on this device in the meantime.",
+  "upload.serverStarting": "The analysis server is starting up. Your first scan may take a little longer.",
+
+  "errors.offline": "You're offline. The scan was saved and will be sent when you're back online.",
+  "errors.timeout": "The server took too long to answer.",
+  "errors.waking-up": "The analysis server is waking up. This can take up to a minute after a quiet period.",
+  "errors.server": "The analysis server ran into a problem.",
+  "errors.unsupported-image": "This image couldn't be analyzed. Try a JPEG or PNG photo of the ingredients.",
+  "errors.invalid-response": "The server sent a result this app doesn't understand.",
+  "errors.cancelled": "Upload cancelled.",
+
+  "results.title": "Analysis Results",
+  "results.close": "Close Results",
+  "results.saveForBarcode": "Save for barcode {barcode}",
+  "results.linkFailed": "Could not save this product on your device.",
+
+  "analysis.offlineTitle": "Offline analysis",
+  "analysis.offlineBody": "Read on this device with basic ingredient rules. Results are less accurate than the online analysis.",
+  "analysis.correctedTitle": "Corrected text",
+  "analysis.correctedBody": "Classified again on this device with basic ingredient rules after you edited the extracted text.",
+  "analysis.savedProduct": "Saved product",
+  "analysis.fromDatabase": "from product database",
+  "analysis.classification": "Food Classification",
+  "analysis.uncertain": "Uncertain",
+
+  "profile.safe": "Safe for you",
+  "profile.unsafe": "Not safe for you",
+  "profile.check": "Check manually",
+  "profile.title": "Your Dietary Profile",
+  "profile.intro": "Tell us what matters to you and results will show whether a product is safe for you. You can change this at any time.",
+  "profile.diet": "Diet",
+  "profile.allergies": "Allergies",
+  "profile.hideOthers": "Only show the diets I selected",
+  "profile.save": "Save Profile",
+  "profile.cancel": "Cancel",
+  "profile.reason.missing": "No {diet} result",
+  "profile.reason.not": "Not {diet}",
+  "profile.reason.uncertain": "{diet} is uncertain",
+  "profile.reason.noIngredients": "No ingredients to check for allergens",
+  "profile.reason.allergen": "Contains {allergen}: {ingredients}",
+
+  "text.title": "Extracted Text",
+  "text.correct": "Correct",
+  "text.cancel": "Cancel",
+  "text.rerun": "Re-run classification",
+  "text.additive": "Food additive {codes}",
+  "text.whatItIs": "What it is",
+  "text.noNotes": "No notes on this ingredient yet.",
+  "text.affected": "Categories affected",
+  "text.noneAffected": "None of the reported categories were affected by this ingredient.",
+  "text.learnMore": "More about {name}",
+  "text.expand": "Show the full text",
+  "text.collapse": "Show less text",
+
+  "compare.title": "Compare Products",
+  "compare.add": "Add to comparison",
+  "compare.added": "In comparison",
+  "compare.open": "Compare ({count})",
+  "compare.needMore": "Scan or pick another product from history to compare.",
+  "compare.full": "You can compare up to {max} products at once.",
+  "compare.product": "Product {index}",
+  "compare.best": "Best for you",
+  "compare.passes": "Passes {count} of {total}",
+  "compare.remove": "Remove from comparison",
+  "compare.clear": "Clear",
+  "compare.ingredients": "Ingredients",
+  "compare.differenceHint": "Highlighted ingredients are not in every product.",
+  "compare.noIngredients": "No ingredients listed",
+  "compare.notReported": "Not reported",
+
+  "ingredients.title": "Ingredient Guide",
+  "ingredients.intro": "What common additives and ingredients are made from, and which diets they affect. Available offline.",
+  "ingredients.search": "Search by name or E-number",
+  "ingredients.noMatches": "No ingredients match your search.",
+  "ingredients.version": "Knowledge base version {version}",
+  "ingredients.origin": "Origin",
+  "ingredients.origin.plant": "Plant",
+  "ingredients.origin.animal": "Animal",
+  "ingredients.origin.synthetic": "Synthetic",
+  "ingredients.origin.variable": "Plant, animal or synthetic",
+  "ingredients.affects": "Diets affected",
+  "ingredients.affectsNone": "Doesn't affect any of the diets ClearByte checks.",
+  "ingredients.synonyms": "Also listed as",
+  "ingredients.all": "All ingredients",
+  "ingredients.scan": "Scan a product",
+  "ingredients.browse": "Browse the ingredient guide",
+
+  "report.action": "Report a problem",
+  "report.categoryTitle": "What's wrong with {category}?",
+  "report.textTitle": "What's wrong with the extracted text?",
+  "report.expected": "It should be",
+  "report.verdict.yes": "Suitable",
+  "report.verdict.no": "Not suitable",
+  "report.verdict.uncertain": "Can't tell from the label",
+  "report.current": "{verdict} (current)",
+  "report.correctedText": "What the label actually says",
+  "report.note": "Note (optional)",
+  "report.includeImage": "Include the photo of the label",
+  "report.imageHint": "The photo is only sent if you tick this, and is deleted from this device once the report is sent.",
+  "report.submit": "Send report",
+  "report.cancel": "Cancel",
+  "report.thanks": "Thanks for your report. You can follow its status in History.",
+  "report.saveFailed": "Your report couldn't be saved on this device.",
+  "report.listTitle": "Your Reports",
+  "report.open": "Reports",
+  "report.empty": "Problems you report will appear here.",
+  "report.textTarget": "Extracted text",
+  "report.withImage": "Photo included",
+  "report.status.pending": "Waiting to send",
+  "report.status.sent": "Sent",
+  "report.status.failed": "Couldn't be sent",
+
+  "history.title": "History",
+  "history.search": "Search extracted text",
+  "history.filter.all": "All",
+  "history.filter.pass": "Passed",
+  "history.filter.fail": "Failed",
+  "history.filter.uncertain": "Uncertain",
+  "history.unavailable": "History is unavailable on this device.",
+  "history.empty": "Your scans will appear here.",
+  "history.noMatches": "No scans match your search.",
+  "history.thumbnail": "Scan thumbnail",
+  "history.noText": "No text extracted",
+
+  "barcode.notFound": "Product not found",
+  "barcode.notFoundBody": "We don't know barcode {barcode} yet. Photograph the ingredient list instead and you can save the result for this barcode.",
+  "barcode.scanAgain": "Scan Again",
+  "barcode.photograph": "Photograph Ingredients",
+  "barcode.unavailable": "Barcode scanning isn't available on this device",
+  "barcode.lookingUp": "Looking up {barcode}…",
+  "barcode.point": "Point the camera at a barcode",
+
+  "outbox.waitingOne": "1 scan waiting for connection",
+  "outbox.waiting": "{count} scans waiting for connection",
+  "outbox.analyzedOne": "1 queued scan analyzed",
+  "outbox.analyzed": "{count} queued scans analyzed",
+  "outbox.failed": "{count} couldn't be analyzed",
+  "outbox.both": "{analyzed}, {failed}",
+  "outbox.retry": "Retry now",
+  "outbox.view": "View",
+  "outbox.notifyOne": "Your queued scan has been analyzed",
+  "outbox.notify": "{count} queued scans have been analyzed",
+
+  "batch.title": "Batch Analysis",
+  "batch.progress": "{finished} of {total} analyzed",
+  "batch.drop": "Drop product photos here, paste them, or click to choose files",
+  "batch.concurrency": "Up to {count} photos are analyzed at a time",
+  "batch.file": "File",
+  "batch.status": "Status",
+  "batch.ingredients": "Ingredients",
+  "batch.status.queued": "Queued",
+  "batch.status.processing": "Analyzing…",
+  "batch.status.done": "Done",
+  "batch.status.failed": "Failed",
+
+  "share.share": "Share",
+  "share.copyLink": "Copy link",
+  "share.copied": "Copied",
+  "share.tooLarge": "This result is too large to share as a link. Export it as PNG or PDF instead.",
+  "share.sheetTitle": "{title} — ClearByte",
+  "share.untitled": "Ingredient scan",
+  "share.verdict.yes": "Yes",
+  "share.verdict.no": "No",
+  "share.verdict.uncertain": "Unclear",
+  "share.summaryItem": "{category}: {verdict}",
+  "share.noCategories": "No categories were classified",
+  "share.cardFooter": "Analyzed {date} · Check the packaging if in doubt",
+  "share.sharedResult": "Shared ClearByte result",
+  "share.scanYourOwn": "Scan your own product",
+  "share.notFound": "Result not found",
+
+  "category.vegan": "Vegan",
+  "category.vegetarian": "Vegetarian",
+  "category.halal": "Halal",
+  "category.kosher": "Kosher",
+  "category.gluten free": "Gluten free",
+  "category.lactose free": "Lactose free",
+
+  "allergen.milk": "Milk",
+  "allergen.eggs": "Eggs",
+  "allergen.peanuts": "Peanuts",
+  "allergen.tree nuts": "Tree nuts",
+  "allergen.soy": "Soy",
+  "allergen.gluten": "Gluten",
+  "allergen.fish": "Fish",
+  "allergen.shellfish": "Shellfish",
+  "allergen.sesame": "Sesame",
+  "allergen.mustard": "Mustard",
+  "allergen.celery": "Celery",
+  "allergen.sulphites": "Sulphites",
+
+  "language.app": "App language",
+  "language.label": "Label language",
+  "language.labelHint": "Helps the server read labels printed in another language.",
+  "language.auto": "Detect automatically",
+
+  "autoCapture.toggle": "Auto capture",
+  "autoCapture.sharp": "Sharp",
+  "autoCapture.steady": "Steady",
+  "autoCapture.text": "Text",
+  "autoCapture.holdStill": "Hold still…",
+  "autoCapture.point": "Point at the ingredients",
+
+  "guidance.closer": "Move closer to the ingredients",
+  "guidance.back": "Move back a little so the camera can focus",
+  "guidance.steady": "Hold steady",
+  "guidance.ready": "Hold still, taking the photo",
+  "guidance.readyManual": "Looks good. Take the photo now.",
+  "guidance.captured": "Photo taken. Check the crop, then choose Use Photo.",
+
+  "a11y.flash": "Flash",
+  "a11y.settings": "Dietary profile and settings",
+  "a11y.history": "Scan history",
+  "a11y.switchCamera": "Switch camera",
+  "a11y.upload": "Upload photos",
+  "a11y.capture": "Take photo",
+  "a11y.submit": "Analyze photos",
+  "a11y.viewfinder": "Camera viewfinder. Press Enter or tap to focus.",
+  "a11y.focusing": "Focusing",
+  "a11y.shotAdded": "Photo {count} of {max} added",
+  "a11y.shot": "Photo {index}",
+  "a11y.removeShot": "Remove photo {index}",
+  "a11y.clearShots": "Remove all photos",
+  "a11y.dismiss": "Dismiss",
+  "a11y.deleteScan": "Delete scan",
+  "a11y.camera": "Camera",
+  "a11y.zoom": "Zoom",
+  "a11y.exposure": "Exposure",
+  "a11y.back": "Back to the camera",
+  "a11y.retryFile": "Analyze {name} again",
+  "a11y.removeFile": "Remove {name}",
+  "a11y.clearFiles": "Remove all files",
+
+  "speech.readAloud": "Read aloud",
+  "speech.stop": "Stop reading",
+  "speech.resultReady": "Results ready.",
+  "speech.category": "{category}: {verdict}.",
+  "speech.because": "Because of {ingredients}.",
+  "speech.yes": "yes",
+  "speech.no": "no",
+  "speech.noCategories": "No categories were classified.",
+
+  "settings.title": "Accessibility",
+  "settings.voiceGuidance": "Spoken guidance while framing the label",
+  "settings.readResults": "Read results aloud automatically",
+  "settings.highContrast": "High-contrast theme",
+  "settings.speechUnavailable": "Speech isn't available in this browser.",
+
+  "shortcuts.title": "Keyboard shortcuts",
+  "shortcuts.hint": "Press ? for keyboard shortcuts",
+  "shortcuts.mode": "Switch between label and barcode",
+  "shortcuts.autoCapture": "Turn auto capture on or off",
+  "shortcuts.focus": "Focus the centre of the frame",
+  "shortcuts.close": "Close the open panel",
+  "shortcuts.help": "Show or hide this list",
+
+  "desktop.hint": "Use this camera interface to capture and analyze images",
+  "desktop.batchPrompt": "Auditing many photos?",
+  "desktop.batchLink": "Open batch analysis",
+};
+
+export type Messages = Record<keyof typeof en, string>;
+
+export default en satisfies Messages;
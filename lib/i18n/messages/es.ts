@@ -0,0 +1,299 @@
+import type { Messages } from "./en";
+
+const es: Messages = {
+  "instructions.heading": "Cómo usarlo",
+  "instructions.title": "Instrucciones",
+  "instructions.body":
+    "Haz una foto nítida de la lista de ingredientes con la cámara o sube una imagen desde tu dispositivo. Las etiquetas que rodean un envase pueden fotografiarse en varias tomas; ordénalas y envíalas para obtener la clasificación.",
+  "instructions.disclaimerTitle": "Aviso",
+  "instructions.disclaimer":
+    "La precisión puede variar. Este sistema no puede garantizar la detección de contaminación cruzada ni verificar los métodos de sacrificio. Comprueba los resultados por tu cuenta.",
+  "instructions.confirm": "Entendido",
+
+  "camera.denied": "Acceso a la cámara denegado",
+  "camera.deniedHint": "Permite el acceso a la cámara en los ajustes del navegador para usar esta función",
+  "camera.retry": "Reintentar",
+  "camera.default": "Cámara predeterminada",
+  "camera.numbered": "Cámara {index}",
+
+  "scanMode.label": "Etiqueta",
+  "scanMode.barcode": "Código de barras",
+
+  "capture.analyzeOnDevice": "Analizar en el dispositivo",
+  "capture.blurry": "Esta foto parece borrosa. Sujeta el teléfono sin moverlo y repítela para una mejor lectura.",
+  "capture.tooManyShots": "Un escaneo admite como máximo {max} fotos, así que solo se añadieron las {added} primeras.",
+  "capture.offlineFailed": "No se pudo leer la imagen en este dispositivo. Prueba con una foto más nítida.",
+
+  "review.title": "Revisar foto",
+  "review.crop": "Recortar",
+  "review.perspective": "Perspectiva",
+  "review.rotate": "Girar",
+  "review.retake": "Repetir",
+  "review.use": "Usar foto",
+
+  "upload.uploading": "Subiendo… {percent} %",
+  "upload.analyzing": "Analizando ingredientes…",
+  "upload.retrying": "{message} Reintentando ({attempt})…",
+  "upload.cancel": "Cancelar",
+  "upload.queued": "{message} El escaneo quedó en cola y, mientras tanto, se analizó en este dispositivo.",
+  "upload.serverStarting": "El servidor de análisis se está iniciando. Tu primer escaneo puede tardar un poco más.",
+
+  "errors.offline": "No tienes conexión. El escaneo se guardó y se enviará cuando vuelvas a estar en línea.",
+  "errors.timeout": "El servidor tardó demasiado en responder.",
+  "errors.waking-up": "El servidor de análisis se está activando. Puede tardar hasta un minuto tras un periodo sin uso.",
+  "errors.server": "El servidor de análisis tuvo un problema.",
+  "errors.unsupported-image": "No se pudo analizar esta imagen. Prueba con una foto JPEG o PNG de los ingredientes.",
+  "errors.invalid-response": "El servidor envió un resultado que esta aplicación no entiende.",
+  "errors.cancelled": "Subida cancelada.",
+
+  "results.title": "Resultados del análisis",
+  "results.close": "Cerrar resultados",
+  "results.saveForBarcode": "Guardar para el código {barcode}",
+  "results.linkFailed": "No se pudo guardar este producto en tu dispositivo.",
+
+  "analysis.offlineTitle": "Análisis sin conexión",
+  "analysis.offlineBody": "Leído en este dispositivo con reglas básicas de ingredientes. Los resultados son menos precisos que el análisis en línea.",
+  "analysis.correctedTitle": "Texto corregido",
+  "analysis.correctedBody": "Clasificado de nuevo en este dispositivo con reglas básicas de ingredientes después de que editaras el texto extraído.",
+  "analysis.savedProduct": "Producto guardado",
+  "analysis.fromDatabase": "de la base de datos de productos",
+  "analysis.classification": "Clasificación alimentaria",
+  "analysis.uncertain": "Incierto",
+
+  "profile.safe": "Apto para ti",
+  "profile.unsafe": "No apto para ti",
+  "profile.check": "Compruébalo tú",
+  "profile.title": "Tu perfil alimentario",
+  "profile.intro": "Cuéntanos qué te importa y los resultados mostrarán si un producto es apto para ti. Puedes cambiarlo en cualquier momento.",
+  "profile.diet": "Dieta",
+  "profile.allergies": "Alergias",
+  "profile.hideOthers": "Mostrar solo las dietas que elegí",
+  "profile.save": "Guardar perfil",
+  "profile.cancel": "Cancelar",
+  "profile.reason.missing": "Sin resultado para {diet}",
+  "profile.reason.not": "No apto: {diet}",
+  "profile.reason.uncertain": "{diet} es incierto",
+  "profile.reason.noIngredients": "No hay ingredientes para comprobar alérgenos",
+  "profile.reason.allergen": "Alérgeno ({allergen}): {ingredients}",
+
+  "text.title": "Texto extraído",
+  "text.correct": "Corregir",
+  "text.cancel": "Cancelar",
+  "text.rerun": "Volver a clasificar",
+  "text.additive": "Aditivo alimentario {codes}",
+  "text.whatItIs": "Qué es",
+  "text.noNotes": "Aún no hay notas sobre este ingrediente.",
+  "text.affected": "Categorías afectadas",
+  "text.noneAffected": "Ninguna de las categorías indicadas se ve afectada por este ingrediente.",
+  "text.learnMore": "Más sobre {name}",
+  "text.expand": "Mostrar todo el texto",
+  "text.collapse": "Mostrar menos texto",
+
+  "compare.title": "Comparar productos",
+  "compare.add": "Añadir a la comparación",
+  "compare.added": "En la comparación",
+  "compare.open": "Comparar ({count})",
+  "compare.needMore": "Escanea o elige otro producto del historial para comparar.",
+  "compare.full": "Puedes comparar hasta {max} productos a la vez.",
+  "compare.product": "Producto {index}",
+  "compare.best": "El mejor para ti",
+  "compare.passes": "Cumple {count} de {total}",
+  "compare.remove": "Quitar de la comparación",
+  "compare.clear": "Vaciar",
+  "compare.ingredients": "Ingredientes",
+  "compare.differenceHint": "Los ingredientes resaltados no están en todos los productos.",
+  "compare.noIngredients": "Sin ingredientes",
+  "compare.notReported": "Sin dato",
+
+  "ingredients.title": "Guía de ingredientes",
+  "ingredients.intro": "De qué están hechos los aditivos e ingredientes habituales y a qué dietas afectan. Disponible sin conexión.",
+  "ingredients.search": "Buscar por nombre o número E",
+  "ingredients.noMatches": "Ningún ingrediente coincide con tu búsqueda.",
+  "ingredients.version": "Base de conocimiento, versión {version}",
+  "ingredients.origin": "Origen",
+  "ingredients.origin.plant": "Vegetal",
+  "ingredients.origin.animal": "Animal",
+  "ingredients.origin.synthetic": "Sintético",
+  "ingredients.origin.variable": "Vegetal, animal o sintético",
+  "ingredients.affects": "Dietas afectadas",
+  "ingredients.affectsNone": "No afecta a ninguna de las dietas que revisa ClearByte.",
+  "ingredients.synonyms": "También aparece como",
+  "ingredients.all": "Todos los ingredientes",
+  "ingredients.scan": "Escanear un producto",
+  "ingredients.browse": "Consultar la guía de ingredientes",
+
+  "report.action": "Informar de un problema",
+  "report.categoryTitle": "¿Qué falla en {category}?",
+  "report.textTitle": "¿Qué falla en el texto extraído?",
+  "report.expected": "Debería ser",
+  "report.verdict.yes": "Apto",
+  "report.verdict.no": "No apto",
+  "report.verdict.uncertain": "No se puede saber por la etiqueta",
+  "report.current": "{verdict} (actual)",
+  "report.correctedText": "Lo que dice realmente la etiqueta",
+  "report.note": "Nota (opcional)",
+  "report.includeImage": "Incluir la foto de la etiqueta",
+  "report.imageHint": "La foto solo se envía si marcas esta casilla y se borra de este dispositivo cuando se envía el informe.",
+  "report.submit": "Enviar informe",
+  "report.cancel": "Cancelar",
+  "report.thanks": "Gracias por tu informe. Puedes seguir su estado en el historial.",
+  "report.saveFailed": "No se pudo guardar tu informe en este dispositivo.",
+  "report.listTitle": "Tus informes",
+  "report.open": "Informes",
+  "report.empty": "Los problemas que informes aparecerán aquí.",
+  "report.textTarget": "Texto extraído",
+  "report.withImage": "Con foto",
+  "report.status.pending": "Pendiente de envío",
+  "report.status.sent": "Enviado",
+  "report.status.failed": "No se pudo enviar",
+
+  "history.title": "Historial",
+  "history.search": "Buscar en el texto extraído",
+  "history.filter.all": "Todos",
+  "history.filter.pass": "Aptos",
+  "history.filter.fail": "No aptos",
+  "history.filter.uncertain": "Inciertos",
+  "history.unavailable": "El historial no está disponible en este dispositivo.",
+  "history.empty": "Tus escaneos aparecerán aquí.",
+  "history.noMatches": "Ningún escaneo coincide con tu búsqueda.",
+  "history.thumbnail": "Miniatura del escaneo",
+  "history.noText": "No se extrajo texto",
+
+  "barcode.notFound": "Producto no encontrado",
+  "barcode.notFoundBody": "Aún no conocemos el código de barras {barcode}. Fotografía la lista de ingredientes y podrás guardar el resultado para este código.",
+  "barcode.scanAgain": "Escanear de nuevo",
+  "barcode.photograph": "Fotografiar ingredientes",
+  "barcode.unavailable": "El escaneo de códigos de barras no está disponible en este dispositivo",
+  "barcode.lookingUp": "Buscando {barcode}…",
+  "barcode.point": "Apunta la cámara a un código de barras",
+
+  "outbox.waitingOne": "1 escaneo esperando conexión",
+  "outbox.waiting": "{count} escaneos esperando conexión",
+  "outbox.analyzedOne": "1 escaneo en cola analizado",
+  "outbox.analyzed": "{count} escaneos en cola analizados",
+  "outbox.failed": "{count} no se pudieron analizar",
+  "outbox.both": "{analyzed}, {failed}",
+  "outbox.retry": "Reintentar ahora",
+  "outbox.view": "Ver",
+  "outbox.notifyOne": "Tu escaneo en cola ha sido analizado",
+  "outbox.notify": "{count} escaneos en cola han sido analizados",
+
+  "batch.title": "Análisis por lotes",
+  "batch.progress": "{finished} de {total} analizadas",
+  "batch.drop": "Suelta aquí fotos de productos, pégalas o haz clic para elegir archivos",
+  "batch.concurrency": "Se analizan hasta {count} fotos a la vez",
+  "batch.file": "Archivo",
+  "batch.status": "Estado",
+  "batch.ingredients": "Ingredientes",
+  "batch.status.queued": "En cola",
+  "batch.status.processing": "Analizando…",
+  "batch.status.done": "Listo",
+  "batch.status.failed": "Error",
+
+  "share.share": "Compartir",
+  "share.copyLink": "Copiar enlace",
+  "share.copied": "Copiado",
+  "share.tooLarge": "Este resultado es demasiado grande para compartirlo como enlace. Expórtalo como PNG o PDF.",
+  "share.sheetTitle": "{title} — ClearByte",
+  "share.untitled": "Escaneo de ingredientes",
+  "share.verdict.yes": "Sí",
+  "share.verdict.no": "No",
+  "share.verdict.uncertain": "Incierto",
+  "share.summaryItem": "{category}: {verdict}",
+  "share.noCategories": "No se clasificó ninguna categoría",
+  "share.cardFooter": "Analizado el {date} · Ante la duda, revisa el envase",
+  "share.sharedResult": "Resultado de ClearByte compartido",
+  "share.scanYourOwn": "Escanea tu propio producto",
+  "share.notFound": "Resultado no encontrado",
+
+  "category.vegan": "Vegano",
+  "category.vegetarian": "Vegetariano",
+  "category.halal": "Halal",
+  "category.kosher": "Kosher",
+  "category.gluten free": "Sin gluten",
+  "category.lactose free": "Sin lactosa",
+
+  "allergen.milk": "Leche",
+  "allergen.eggs": "Huevos",
+  "allergen.peanuts": "Cacahuetes",
+  "allergen.tree nuts": "Frutos de cáscara",
+  "allergen.soy": "Soja",
+  "allergen.gluten": "Gluten",
+  "allergen.fish": "Pescado",
+  "allergen.shellfish": "Mariscos",
+  "allergen.sesame": "Sésamo",
+  "allergen.mustard": "Mostaza",
+  "allergen.celery": "Apio",
+  "allergen.sulphites": "Sulfitos",
+
+  "language.app": "Idioma de la aplicación",
+  "language.label": "Idioma de la etiqueta",
+  "language.labelHint": "Ayuda al servidor a leer etiquetas impresas en otro idioma.",
+  "language.auto": "Detectar automáticamente",
+
+  "autoCapture.toggle": "Captura automática",
+  "autoCapture.sharp": "Nítido",
+  "autoCapture.steady": "Estable",
+  "autoCapture.text": "Texto",
+  "autoCapture.holdStill": "No te muevas…",
+  "autoCapture.point": "Apunta a los ingredientes",
+
+  "guidance.closer": "Acércate a los ingredientes",
+  "guidance.back": "Aléjate un poco para que la cámara pueda enfocar",
+  "guidance.steady": "Mantén el teléfono quieto",
+  "guidance.ready": "No te muevas, haciendo la foto",
+  "guidance.readyManual": "Se ve bien. Toma la foto ahora.",
+  "guidance.captured": "Foto hecha. Revisa el recorte y elige Usar foto.",
+
+  "a11y.flash": "Flash",
+  "a11y.settings": "Perfil alimentario y ajustes",
+  "a11y.history": "Historial de escaneos",
+  "a11y.switchCamera": "Cambiar de cámara",
+  "a11y.upload": "Subir fotos",
+  "a11y.capture": "Hacer foto",
+  "a11y.submit": "Analizar fotos",
+  "a11y.viewfinder": "Visor de la cámara. Pulsa Intro o toca para enfocar.",
+  "a11y.focusing": "Enfocando",
+  "a11y.shotAdded": "Foto {count} de {max} añadida",
+  "a11y.shot": "Foto {index}",
+  "a11y.removeShot": "Quitar la foto {index}",
+  "a11y.clearShots": "Quitar todas las fotos",
+  "a11y.dismiss": "Descartar",
+  "a11y.deleteScan": "Eliminar escaneo",
+  "a11y.camera": "Cámara",
+  "a11y.zoom": "Zoom",
+  "a11y.exposure": "Exposición",
+  "a11y.back": "Volver a la cámara",
+  "a11y.retryFile": "Analizar {name} de nuevo",
+  "a11y.removeFile": "Quitar {name}",
+  "a11y.clearFiles": "Quitar todos los archivos",
+
+  "speech.readAloud": "Leer en voz alta",
+  "speech.stop": "Dejar de leer",
+  "speech.resultReady": "Resultados listos.",
+  "speech.category": "{category}: {verdict}.",
+  "speech.because": "Por: {ingredients}.",
+  "speech.yes": "sí",
+  "speech.no": "no",
+  "speech.noCategories": "No se clasificó ninguna categoría.",
+
+  "settings.title": "Accesibilidad",
+  "settings.voiceGuidance": "Guía por voz al encuadrar la etiqueta",
+  "settings.readResults": "Leer los resultados automáticamente",
+  "settings.highContrast": "Tema de alto contraste",
+  "settings.speechUnavailable": "La voz no está disponible en este navegador.",
+
+  "shortcuts.title": "Atajos de teclado",
+  "shortcuts.hint": "Pulsa ? para ver los atajos de teclado",
+  "shortcuts.mode": "Cambiar entre etiqueta y código de barras",
+  "shortcuts.autoCapture": "Activar o desactivar la captura automática",
+  "shortcuts.focus": "Enfocar el centro de la imagen",
+  "shortcuts.close": "Cerrar el panel abierto",
+  "shortcuts.help": "Mostrar u ocultar esta lista",
+
+  "desktop.hint": "Usa esta interfaz de cámara para capturar y analizar imágenes",
+  "desktop.batchPrompt": "¿Muchas fotos que revisar?",
+  "desktop.batchLink": "Abrir el análisis por lotes",
+};
+
+export default es;
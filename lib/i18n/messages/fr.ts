@@ -0,0 +1,299 @@
+import type { Messages } from "./en";
+
+const fr: Messages = {
+  "instructions.heading": "Mode d'emploi",
+  "instructions.title": "Instructions",
+  "instructions.body":
+    "Prenez une photo nette de la liste des ingrédients avec l'appareil photo, ou importez une image depuis votre appareil. Les étiquettes qui font le tour d'un emballage peuvent être photographiées en plusieurs fois ; remettez les photos dans l'ordre, puis envoyez-les pour obtenir la classification.",
+  "instructions.disclaimerTitle": "Avertissement",
+  "instructions.disclaimer":
+    "La précision peut varier. Ce système ne peut pas garantir la détection des contaminations croisées ni vérifier les méthodes d'abattage. Vérifiez les résultats par vous-même.",
+  "instructions.confirm": "Compris",
+
+  "camera.denied": "Accès à la caméra refusé",
+  "camera.deniedHint": "Autorisez l'accès à la caméra dans les réglages du navigateur pour utiliser cette fonction",
+  "camera.retry": "Réessayer",
+  "camera.default": "Caméra par défaut",
+  "camera.numbered": "Caméra {index}",
+
+  "scanMode.label": "Étiquette",
+  "scanMode.barcode": "Code-barres",
+
+  "capture.analyzeOnDevice": "Analyser sur l'appareil",
+  "capture.blurry": "Cette photo semble floue. Tenez le téléphone immobile et reprenez-la pour une meilleure lecture.",
+  "capture.tooManyShots": "Un scan peut contenir au plus {max} photos ; seules les {added} premières ont été ajoutées.",
+  "capture.offlineFailed": "Impossible de lire l'image sur cet appareil. Essayez avec une photo plus nette.",
+
+  "review.title": "Vérifier la photo",
+  "review.crop": "Recadrer",
+  "review.perspective": "Perspective",
+  "review.rotate": "Pivoter",
+  "review.retake": "Reprendre",
+  "review.use": "Utiliser la photo",
+
+  "upload.uploading": "Envoi… {percent} %",
+  "upload.analyzing": "Analyse des ingrédients…",
+  "upload.retrying": "{message} Nouvel essai ({attempt})…",
+  "upload.cancel": "Annuler",
+  "upload.queued": "{message} Le scan a été mis en attente et analysé sur cet appareil en attendant.",
+  "upload.serverStarting": "Le serveur d'analyse démarre. Votre premier scan peut prendre un peu plus de temps.",
+
+  "errors.offline": "Vous êtes hors ligne. Le scan a été enregistré et sera envoyé dès le retour de la connexion.",
+  "errors.timeout": "Le serveur a mis trop de temps à répondre.",
+  "errors.waking-up": "Le serveur d'analyse se réveille. Cela peut prendre jusqu'à une minute après une période d'inactivité.",
+  "errors.server": "Le serveur d'analyse a rencontré un problème.",
+  "errors.unsupported-image": "Cette image n'a pas pu être analysée. Essayez une photo JPEG ou PNG des ingrédients.",
+  "errors.invalid-response": "Le serveur a renvoyé un résultat que l'application ne comprend pas.",
+  "errors.cancelled": "Envoi annulé.",
+
+  "results.title": "Résultats de l'analyse",
+  "results.close": "Fermer les résultats",
+  "results.saveForBarcode": "Enregistrer pour le code-barres {barcode}",
+  "results.linkFailed": "Impossible d'enregistrer ce produit sur votre appareil.",
+
+  "analysis.offlineTitle": "Analyse hors ligne",
+  "analysis.offlineBody": "Lu sur cet appareil avec des règles d'ingrédients simples. Les résultats sont moins précis que l'analyse en ligne.",
+  "analysis.correctedTitle": "Texte corrigé",
+  "analysis.correctedBody": "Reclassé sur cet appareil avec des règles d'ingrédients simples après votre correction du texte extrait.",
+  "analysis.savedProduct": "Produit enregistré",
+  "analysis.fromDatabase": "depuis la base de produits",
+  "analysis.classification": "Classification alimentaire",
+  "analysis.uncertain": "Incertain",
+
+  "profile.safe": "Sans risque pour vous",
+  "profile.unsafe": "Ne vous convient pas",
+  "profile.check": "À vérifier vous-même",
+  "profile.title": "Votre profil alimentaire",
+  "profile.intro": "Dites-nous ce qui compte pour vous et les résultats indiqueront si un produit vous convient. Vous pouvez le modifier à tout moment.",
+  "profile.diet": "Régime",
+  "profile.allergies": "Allergies",
+  "profile.hideOthers": "N'afficher que les régimes sélectionnés",
+  "profile.save": "Enregistrer le profil",
+  "profile.cancel": "Annuler",
+  "profile.reason.missing": "Aucun résultat pour {diet}",
+  "profile.reason.not": "Non conforme : {diet}",
+  "profile.reason.uncertain": "{diet} : incertain",
+  "profile.reason.noIngredients": "Aucun ingrédient à vérifier pour les allergènes",
+  "profile.reason.allergen": "Allergène ({allergen}) : {ingredients}",
+
+  "text.title": "Texte extrait",
+  "text.correct": "Corriger",
+  "text.cancel": "Annuler",
+  "text.rerun": "Relancer la classification",
+  "text.additive": "Additif alimentaire {codes}",
+  "text.whatItIs": "De quoi s'agit-il",
+  "text.noNotes": "Pas encore de notes sur cet ingrédient.",
+  "text.affected": "Catégories concernées",
+  "text.noneAffected": "Aucune des catégories signalées n'est concernée par cet ingrédient.",
+  "text.learnMore": "En savoir plus sur {name}",
+  "text.expand": "Afficher tout le texte",
+  "text.collapse": "Afficher moins de texte",
+
+  "compare.title": "Comparer des produits",
+  "compare.add": "Ajouter à la comparaison",
+  "compare.added": "Dans la comparaison",
+  "compare.open": "Comparer ({count})",
+  "compare.needMore": "Scannez ou choisissez un autre produit dans l'historique pour comparer.",
+  "compare.full": "Vous pouvez comparer jusqu'à {max} produits à la fois.",
+  "compare.product": "Produit {index}",
+  "compare.best": "Le plus adapté",
+  "compare.passes": "Conforme pour {count} sur {total}",
+  "compare.remove": "Retirer de la comparaison",
+  "compare.clear": "Tout retirer",
+  "compare.ingredients": "Ingrédients",
+  "compare.differenceHint": "Les ingrédients surlignés ne figurent pas dans tous les produits.",
+  "compare.noIngredients": "Aucun ingrédient listé",
+  "compare.notReported": "Non indiqué",
+
+  "ingredients.title": "Guide des ingrédients",
+  "ingredients.intro": "De quoi sont faits les additifs et ingrédients courants, et quels régimes ils concernent. Disponible hors ligne.",
+  "ingredients.search": "Rechercher par nom ou numéro E",
+  "ingredients.noMatches": "Aucun ingrédient ne correspond à votre recherche.",
+  "ingredients.version": "Base de connaissances, version {version}",
+  "ingredients.origin": "Origine",
+  "ingredients.origin.plant": "Végétale",
+  "ingredients.origin.animal": "Animale",
+  "ingredients.origin.synthetic": "Synthétique",
+  "ingredients.origin.variable": "Végétale, animale ou synthétique",
+  "ingredients.affects": "Régimes concernés",
+  "ingredients.affectsNone": "Ne concerne aucun des régimes vérifiés par ClearByte.",
+  "ingredients.synonyms": "Aussi appelé",
+  "ingredients.all": "Tous les ingrédients",
+  "ingredients.scan": "Scanner un produit",
+  "ingredients.browse": "Parcourir le guide des ingrédients",
+
+  "report.action": "Signaler un problème",
+  "report.categoryTitle": "Qu'est-ce qui ne va pas pour {category} ?",
+  "report.textTitle": "Qu'est-ce qui ne va pas dans le texte reconnu ?",
+  "report.expected": "Il devrait être",
+  "report.verdict.yes": "Conforme",
+  "report.verdict.no": "Non conforme",
+  "report.verdict.uncertain": "Impossible à dire d'après l'étiquette",
+  "report.current": "{verdict} (actuel)",
+  "report.correctedText": "Ce qui est réellement écrit sur l'étiquette",
+  "report.note": "Remarque (facultatif)",
+  "report.includeImage": "Joindre la photo de l'étiquette",
+  "report.imageHint": "La photo n'est envoyée que si vous cochez cette case, et elle est supprimée de cet appareil une fois le signalement envoyé.",
+  "report.submit": "Envoyer",
+  "report.cancel": "Annuler",
+  "report.thanks": "Merci pour votre signalement. Vous pouvez suivre son état dans l'historique.",
+  "report.saveFailed": "Votre signalement n'a pas pu être enregistré sur cet appareil.",
+  "report.listTitle": "Vos signalements",
+  "report.open": "Signalements",
+  "report.empty": "Les problèmes que vous signalez apparaîtront ici.",
+  "report.textTarget": "Texte reconnu",
+  "report.withImage": "Photo jointe",
+  "report.status.pending": "En attente d'envoi",
+  "report.status.sent": "Envoyé",
+  "report.status.failed": "Échec de l'envoi",
+
+  "history.title": "Historique",
+  "history.search": "Rechercher dans le texte extrait",
+  "history.filter.all": "Tous",
+  "history.filter.pass": "Conformes",
+  "history.filter.fail": "Non conformes",
+  "history.filter.uncertain": "Incertains",
+  "history.unavailable": "L'historique n'est pas disponible sur cet appareil.",
+  "history.empty": "Vos analyses apparaîtront ici.",
+  "history.noMatches": "Aucune analyse ne correspond à votre recherche.",
+  "history.thumbnail": "Miniature de l'analyse",
+  "history.noText": "Aucun texte extrait",
+
+  "barcode.notFound": "Produit introuvable",
+  "barcode.notFoundBody": "Nous ne connaissons pas encore le code-barres {barcode}. Photographiez plutôt la liste des ingrédients : vous pourrez enregistrer le résultat pour ce code-barres.",
+  "barcode.scanAgain": "Scanner à nouveau",
+  "barcode.photograph": "Photographier les ingrédients",
+  "barcode.unavailable": "La lecture des codes-barres n'est pas disponible sur cet appareil",
+  "barcode.lookingUp": "Recherche de {barcode}…",
+  "barcode.point": "Pointez la caméra vers un code-barres",
+
+  "outbox.waitingOne": "1 analyse en attente de connexion",
+  "outbox.waiting": "{count} analyses en attente de connexion",
+  "outbox.analyzedOne": "1 analyse en attente traitée",
+  "outbox.analyzed": "{count} analyses en attente traitées",
+  "outbox.failed": "{count} n'ont pas pu être analysées",
+  "outbox.both": "{analyzed}, {failed}",
+  "outbox.retry": "Réessayer maintenant",
+  "outbox.view": "Voir",
+  "outbox.notifyOne": "Votre analyse en attente a été traitée",
+  "outbox.notify": "{count} analyses en attente ont été traitées",
+
+  "batch.title": "Analyse par lot",
+  "batch.progress": "{finished} sur {total} analysées",
+  "batch.drop": "Déposez des photos de produits ici, collez-les ou cliquez pour choisir des fichiers",
+  "batch.concurrency": "Jusqu'à {count} photos sont analysées à la fois",
+  "batch.file": "Fichier",
+  "batch.status": "Statut",
+  "batch.ingredients": "Ingrédients",
+  "batch.status.queued": "En attente",
+  "batch.status.processing": "Analyse…",
+  "batch.status.done": "Terminé",
+  "batch.status.failed": "Échec",
+
+  "share.share": "Partager",
+  "share.copyLink": "Copier le lien",
+  "share.copied": "Copié",
+  "share.tooLarge": "Ce résultat est trop volumineux pour être partagé par lien. Exportez-le plutôt en PNG ou en PDF.",
+  "share.sheetTitle": "{title} — ClearByte",
+  "share.untitled": "Analyse d'ingrédients",
+  "share.verdict.yes": "Oui",
+  "share.verdict.no": "Non",
+  "share.verdict.uncertain": "Incertain",
+  "share.summaryItem": "{category} : {verdict}",
+  "share.noCategories": "Aucune catégorie n'a été classée",
+  "share.cardFooter": "Analysé le {date} · En cas de doute, vérifiez l'emballage",
+  "share.sharedResult": "Résultat ClearByte partagé",
+  "share.scanYourOwn": "Analysez votre propre produit",
+  "share.notFound": "Résultat introuvable",
+
+  "category.vegan": "Végan",
+  "category.vegetarian": "Végétarien",
+  "category.halal": "Halal",
+  "category.kosher": "Casher",
+  "category.gluten free": "Sans gluten",
+  "category.lactose free": "Sans lactose",
+
+  "allergen.milk": "Lait",
+  "allergen.eggs": "Œufs",
+  "allergen.peanuts": "Arachides",
+  "allergen.tree nuts": "Fruits à coque",
+  "allergen.soy": "Soja",
+  "allergen.gluten": "Gluten",
+  "allergen.fish": "Poisson",
+  "allergen.shellfish": "Crustacés et mollusques",
+  "allergen.sesame": "Sésame",
+  "allergen.mustard": "Moutarde",
+  "allergen.celery": "Céleri",
+  "allergen.sulphites": "Sulfites",
+
+  "language.app": "Langue de l'application",
+  "language.label": "Langue de l'étiquette",
+  "language.labelHint": "Aide le serveur à lire les étiquettes imprimées dans une autre langue.",
+  "language.auto": "Détection automatique",
+
+  "autoCapture.toggle": "Capture auto",
+  "autoCapture.sharp": "Net",
+  "autoCapture.steady": "Stable",
+  "autoCapture.text": "Texte",
+  "autoCapture.holdStill": "Ne bougez plus…",
+  "autoCapture.point": "Visez les ingrédients",
+
+  "guidance.closer": "Rapprochez-vous des ingrédients",
+  "guidance.back": "Reculez un peu pour que l'appareil fasse la mise au point",
+  "guidance.steady": "Restez immobile",
+  "guidance.ready": "Ne bougez plus, prise de la photo",
+  "guidance.readyManual": "C'est bon. Prenez la photo maintenant.",
+  "guidance.captured": "Photo prise. Vérifiez le cadrage, puis choisissez Utiliser la photo.",
+
+  "a11y.flash": "Flash",
+  "a11y.settings": "Profil alimentaire et réglages",
+  "a11y.history": "Historique des scans",
+  "a11y.switchCamera": "Changer de caméra",
+  "a11y.upload": "Importer des photos",
+  "a11y.capture": "Prendre une photo",
+  "a11y.submit": "Analyser les photos",
+  "a11y.viewfinder": "Viseur de l'appareil photo. Appuyez sur Entrée ou touchez pour faire la mise au point.",
+  "a11y.focusing": "Mise au point",
+  "a11y.shotAdded": "Photo {count} sur {max} ajoutée",
+  "a11y.shot": "Photo {index}",
+  "a11y.removeShot": "Retirer la photo {index}",
+  "a11y.clearShots": "Retirer toutes les photos",
+  "a11y.dismiss": "Fermer",
+  "a11y.deleteScan": "Supprimer le scan",
+  "a11y.camera": "Caméra",
+  "a11y.zoom": "Zoom",
+  "a11y.exposure": "Exposition",
+  "a11y.back": "Retour à la caméra",
+  "a11y.retryFile": "Analyser à nouveau {name}",
+  "a11y.removeFile": "Retirer {name}",
+  "a11y.clearFiles": "Retirer tous les fichiers",
+
+  "speech.readAloud": "Lire à voix haute",
+  "speech.stop": "Arrêter la lecture",
+  "speech.resultReady": "Résultats prêts.",
+  "speech.category": "{category} : {verdict}.",
+  "speech.because": "À cause de : {ingredients}.",
+  "speech.yes": "oui",
+  "speech.no": "non",
+  "speech.noCategories": "Aucune catégorie n'a été classée.",
+
+  "settings.title": "Accessibilité",
+  "settings.voiceGuidance": "Guidage vocal pendant le cadrage",
+  "settings.readResults": "Lire les résultats automatiquement",
+  "settings.highContrast": "Thème à contraste élevé",
+  "settings.speechUnavailable": "La synthèse vocale n'est pas disponible dans ce navigateur.",
+
+  "shortcuts.title": "Raccourcis clavier",
+  "shortcuts.hint": "Appuyez sur ? pour les raccourcis clavier",
+  "shortcuts.mode": "Basculer entre étiquette et code-barres",
+  "shortcuts.autoCapture": "Activer ou désactiver la capture auto",
+  "shortcuts.focus": "Mise au point au centre de l'image",
+  "shortcuts.close": "Fermer le panneau ouvert",
+  "shortcuts.help": "Afficher ou masquer cette liste",
+
+  "desktop.hint": "Utilisez cette interface pour photographier et analyser des images",
+  "desktop.batchPrompt": "Beaucoup de photos à vérifier ?",
+  "desktop.batchLink": "Ouvrir l'analyse par lot",
+};
+
+export default fr;
@@ -0,0 +1,126 @@
+// Pure helpers behind the upload preprocessing pipeline. Nothing here touches the DOM.
+
+export type ExifOrientation = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+// Canvas transform arguments (a, b, c, d, e, f) as passed to CanvasRenderingContext2D.transform.
+export type TransformMatrix = [number, number, number, number, number, number];
+
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+// Reads the EXIF orientation tag from a JPEG. Anything unreadable counts as 1 (upright).
+export function readExifOrientation(buffer: ArrayBuffer): ExifOrientation {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break;
+    // APP1 segment starting with "Exif\0\0".
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      return readTiffOrientation(view, offset + 10);
+    }
+    offset += 2 + length;
+  }
+  return 1;
+}
+
+function readTiffOrientation(view: DataView, tiffStart: number): ExifOrientation {
+  if (tiffStart + 8 > view.byteLength) return 1;
+  const byteOrder = view.getUint16(tiffStart);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return 1;
+  const littleEndian = byteOrder === 0x4949;
+  const ifdStart = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+  if (ifdStart + 2 > view.byteLength) return 1;
+
+  const entries = view.getUint16(ifdStart, littleEndian);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifdStart + 2 + i * 12;
+    if (entry + 12 > view.byteLength) return 1;
+    if (view.getUint16(entry, littleEndian) === EXIF_ORIENTATION_TAG) {
+      const value = view.getUint16(entry + 8, littleEndian);
+      return value >= 1 && value <= 8 ? (value as ExifOrientation) : 1;
+    }
+  }
+  return 1;
+}
+
+// Orientations 5-8 are rotated by 90°, so the upright image has width and height swapped.
+export function getOrientedSize({ width, height }: Size, orientation: ExifOrientation): Size {
+  return orientation >= 5 ? { width: height, height: width } : { width, height };
+}
+
+// Transform that draws a `width`×`height` source upright, given its EXIF orientation.
+export function getOrientationTransform(orientation: ExifOrientation, { width, height }: Size): TransformMatrix {
+  switch (orientation) {
+    case 2: return [-1, 0, 0, 1, width, 0];
+    case 3: return [-1, 0, 0, -1, width, height];
+    case 4: return [1, 0, 0, -1, 0, height];
+    case 5: return [0, 1, 1, 0, 0, 0];
+    case 6: return [0, 1, -1, 0, height, 0];
+    case 7: return [0, -1, -1, 0, height, width];
+    case 8: return [0, -1, 1, 0, 0, width];
+    default: return [1, 0, 0, 1, 0, 0];
+  }
+}
+
+// Scales down (never up) so that neither side exceeds maxDimension, keeping the aspect ratio.
+export function fitWithin({ width, height }: Size, maxDimension: number): Size {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+// Rec. 601 luma, written back into all three colour channels of RGBA pixel data.
+export function toGrayscale(pixels: Uint8ClampedArray): Uint8ClampedArray {
+  const output = new Uint8ClampedArray(pixels.length);
+  for (let i = 0; i < pixels.length; i += 4) {
+    const luma = 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+    output[i] = output[i + 1] = output[i + 2] = luma;
+    output[i + 3] = pixels[i + 3];
+  }
+  return output;
+}
+
+// Linear histogram stretch of grayscale RGBA data, ignoring `clip` (0..0.5) of the darkest and brightest pixels.
+export function stretchContrast(pixels: Uint8ClampedArray, clip = 0.01): Uint8ClampedArray {
+  const histogram = new Array<number>(256).fill(0);
+  const pixelCount = pixels.length / 4;
+  for (let i = 0; i < pixels.length; i += 4) histogram[pixels[i]]++;
+
+  const threshold = pixelCount * clip;
+  let low = 0;
+  for (let seen = 0; low < 255 && seen + histogram[low] <= threshold; low++) seen += histogram[low];
+  let high = 255;
+  for (let seen = 0; high > 0 && seen + histogram[high] <= threshold; high--) seen += histogram[high];
+
+  const output = new Uint8ClampedArray(pixels);
+  if (high <= low) return output;
+  const scale = 255 / (high - low);
+  for (let i = 0; i < output.length; i += 4) {
+    const value = (pixels[i] - low) * scale;
+    output[i] = output[i + 1] = output[i + 2] = value;
+  }
+  return output;
+}
+
+export interface QualitySearch {
+  low: number;
+  high: number;
+  best: number | null;
+}
+
+// One step of a binary search for the highest JPEG quality whose output fits the byte budget.
+export function nextQualitySearch(search: QualitySearch, quality: number, size: number, maxBytes: number): QualitySearch {
+  return size <= maxBytes
+    ? { low: quality, high: search.high, best: quality }
+    : { low: search.low, high: quality, best: search.best };
+}
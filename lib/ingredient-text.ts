@@ -0,0 +1,53 @@
+import type { AnalysisResult, Verdict } from "./analysis";
+import { explainIngredient, findENumbers } from "./rules";
+
+export interface CategoryHit {
+  category: string;
+  verdict: Exclude<Verdict, "yes">;
+}
+
+// The extracted text cut into ingredients and the punctuation/whitespace between them.
+export type TextSegment =
+  | { kind: "separator"; text: string }
+  | { kind: "ingredient"; text: string; eNumbers: string[]; hits: CategoryHit[] };
+
+const SEPARATORS = /([,;()[\]:\n]+)/;
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, " ").trim();
+
+// Offending ingredients from the backend may be a whole line ("milk chocolate (sugar, milk)") or a single word.
+// A token is blamed if it contains an offending ingredient, or sits inside one and a rule agrees it is the culprit.
+function findHits(ingredient: string, result: AnalysisResult): CategoryHit[] {
+  const token = normalize(ingredient);
+  const { matches } = explainIngredient(ingredient);
+  // What the rules say this one ingredient does to a category, which may be milder than the overall verdict.
+  const ruleVerdict = (category: string) => {
+    const effects = matches.map(({ effects }) => (effects as Record<string, CategoryHit["verdict"] | undefined>)[category]);
+    if (effects.includes("no")) return "no";
+    return effects.includes("uncertain") ? "uncertain" : undefined;
+  };
+
+  return Object.entries(result.classification).flatMap(([category, { verdict, offendingIngredients }]) => {
+    if (verdict === "yes") return [];
+    const offending = offendingIngredients.map(normalize).filter((entry) => entry.length >= 3);
+    const ruled = ruleVerdict(category);
+    const blamed =
+      offending.some((entry) => token.includes(entry)) ||
+      (ruled !== undefined && (offending.length === 0 || offending.some((entry) => entry.includes(token))));
+    return blamed ? [{ category, verdict: ruled ?? verdict }] : [];
+  });
+}
+
+export function tokenizeIngredientText(text: string, result: AnalysisResult): TextSegment[] {
+  return text.split(SEPARATORS).flatMap((part, index): TextSegment[] => {
+    // split() with a capture group puts the separators at odd indices.
+    if (index % 2 === 1) return [{ kind: "separator", text: part }];
+    const [, leading, core, trailing] = part.match(/^(\s*)([\s\S]*?)(\s*)$/) ?? ["", "", part, ""];
+    if (!/[\p{L}\p{N}]/u.test(core)) return part ? [{ kind: "separator", text: part }] : [];
+    return [
+      ...(leading ? [{ kind: "separator" as const, text: leading }] : []),
+      { kind: "ingredient", text: core, eNumbers: findENumbers(core), hits: findHits(core, result) },
+      ...(trailing ? [{ kind: "separator" as const, text: trailing }] : []),
+    ];
+  });
+}
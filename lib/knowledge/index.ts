@@ -0,0 +1,89 @@
+import type { Verdict } from "../analysis";
+import { DEFAULT_LOCALE, Locale } from "../i18n/config";
+import { baseENumber, findENumbers } from "../rules";
+import dataset from "./dataset.json";
+
+export type IngredientOrigin = "plant" | "animal" | "synthetic" | "variable";
+
+export interface KnowledgeEntry {
+  slug: string;
+  // Canonical "E471"-style code; absent for plain ingredients.
+  eNumber?: string;
+  name: string;
+  origin: IngredientOrigin;
+  description: string;
+  // Only the categories the ingredient can break; anything missing is unaffected.
+  categories: Record<string, Exclude<Verdict, "yes">>;
+  synonyms: Partial<Record<Locale, string[]>>;
+}
+
+// Bumped whenever entries change meaning, so a result can be traced back to the data that explained it.
+export const KNOWLEDGE_BASE_VERSION: number = dataset.version;
+
+const ENTRIES = dataset.entries as KnowledgeEntry[];
+
+// Case- and accent-insensitive form used for every comparison, so "gelatine" finds "Gélatine".
+const fold = (text: string) =>
+  text.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase().replace(/\s+/g, " ").trim();
+
+// "E 160a" and "E-160a" as they are written in the dataset.
+const joinENumbers = (text: string) => text.replace(/\be\s?-?(?=\d{3,4})/g, "e");
+
+const termsOf = (entry: KnowledgeEntry) => [
+  entry.name,
+  ...(entry.eNumber ? [entry.eNumber] : []),
+  ...Object.values(entry.synonyms).flat(),
+];
+
+const BY_SLUG = new Map(ENTRIES.map((entry) => [entry.slug, entry]));
+const BY_E_NUMBER = new Map(ENTRIES.flatMap((entry) => (entry.eNumber ? [[entry.eNumber, entry] as const] : [])));
+// Longest terms first, so "barley malt" wins over plain "malt".
+const TERMS = ENTRIES.flatMap((entry) => termsOf(entry).map((term) => ({ term: fold(term), entry }))).sort(
+  (a, b) => b.term.length - a.term.length
+);
+
+const isWordChar = (char: string | undefined) => char !== undefined && /[\p{L}\p{N}]/u.test(char);
+
+// Whole-word match, so "malt" doesn't find "maltodextrin".
+function containsWord(text: string, word: string) {
+  for (let index = text.indexOf(word); index !== -1; index = text.indexOf(word, index + 1)) {
+    if (!isWordChar(text[index - 1]) && !isWordChar(text[index + word.length])) return true;
+  }
+  return false;
+}
+
+export const listEntries = (): KnowledgeEntry[] => ENTRIES;
+
+export const getEntry = (slug: string): KnowledgeEntry | undefined => BY_SLUG.get(slug);
+
+// The entry a single ingredient from a label refers to: by E-number first, then by any name or synonym.
+export function findEntry(ingredient: string): KnowledgeEntry | undefined {
+  for (const code of findENumbers(ingredient)) {
+    const entry = BY_E_NUMBER.get(code) ?? BY_E_NUMBER.get(baseENumber(code));
+    if (entry) return entry;
+  }
+  const text = joinENumbers(fold(ingredient));
+  return TERMS.find(({ term }) => containsWord(text, term))?.entry;
+}
+
+// Entries whose name, code or any synonym contains the query, best matches first.
+export function searchEntries(query: string): KnowledgeEntry[] {
+  const needle = joinENumbers(fold(query));
+  if (!needle) return ENTRIES;
+  const rank = (entry: KnowledgeEntry) => {
+    const terms = termsOf(entry).map(fold);
+    if (terms.some((term) => term === needle)) return 0;
+    if (terms.some((term) => term.startsWith(needle))) return 1;
+    return terms.some((term) => term.includes(needle)) ? 2 : -1;
+  };
+  return ENTRIES.map((entry) => ({ entry, rank: rank(entry) }))
+    .filter(({ rank }) => rank >= 0)
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ entry }) => entry);
+}
+
+// The name to show in the user's language, falling back to the English one.
+export function localizedName(entry: KnowledgeEntry, locale: Locale): string {
+  const synonym = locale === DEFAULT_LOCALE ? undefined : entry.synonyms[locale]?.[0];
+  return synonym ? synonym.charAt(0).toUpperCase() + synonym.slice(1) : entry.name;
+}
@@ -0,0 +1,98 @@
+import { ANALYSIS_RESULT_VERSION, AnalysisResult, CategoryVerdict, Verdict, parseIngredientList } from "./analysis";
+
+// Shots of a wrap-around label usually overlap by a few words; shorter matches are likely coincidence.
+const MIN_OVERLAP_WORDS = 3;
+const MAX_OVERLAP_WORDS = 60;
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+
+// Number of words at the end of `previous` that repeat at the start of `next`.
+function findOverlap(previous: string[], next: string[]): number {
+  const a = previous.map(normalizeWord);
+  const b = next.map(normalizeWord);
+  for (let size = Math.min(a.length, b.length, MAX_OVERLAP_WORDS); size >= MIN_OVERLAP_WORDS; size--) {
+    let matches = true;
+    for (let i = 0; i < size && matches; i++) {
+      matches = a[a.length - size + i] === b[i];
+    }
+    if (matches) return size;
+  }
+  return 0;
+}
+
+// Joins per-shot OCR text in shot order, dropping repeated lines and the overlap between neighbouring shots.
+export function mergeExtractedText(texts: string[]): string {
+  const seenLines = new Set<string>();
+  let merged: string[] = [];
+
+  for (const text of texts) {
+    const lines = text
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line && !seenLines.has(line.toLowerCase()));
+    lines.forEach((line) => seenLines.add(line.toLowerCase()));
+    const words = lines.join(" ").split(/\s+/).filter(Boolean);
+    if (words.length === 0) continue;
+
+    const overlap = findOverlap(merged, words);
+    merged = merged.length > 0 && overlap === 0
+      ? [...merged, "\n", ...words]
+      : [...merged, ...words.slice(overlap)];
+  }
+
+  return merged.join(" ").replace(/ ?\n ?/g, "\n").trim();
+}
+
+export function dedupeIngredients(ingredients: string[]): string[] {
+  const seen = new Set<string>();
+  return ingredients.filter((ingredient) => {
+    const key = ingredient.toLowerCase().replace(/\s+/g, " ");
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+const SEVERITY: Record<Verdict, number> = { yes: 0, uncertain: 1, no: 2 };
+
+// The most cautious verdict wins: one panel saying "no" is enough.
+function mergeVerdicts(verdicts: CategoryVerdict[]): CategoryVerdict {
+  const verdict = verdicts.reduce<Verdict>(
+    (worst, current) => (SEVERITY[current.verdict] > SEVERITY[worst] ? current.verdict : worst),
+    "yes"
+  );
+  const deciding = verdicts.filter((entry) => entry.verdict === verdict);
+  const confidences = deciding.map((entry) => entry.confidence).filter((value): value is number => value !== undefined);
+  const reasons = Array.from(new Set(deciding.map((entry) => entry.reason).filter(Boolean)));
+  return {
+    verdict,
+    // A single confident "no" settles it; a "yes" is only as strong as its weakest panel.
+    confidence: confidences.length === 0
+      ? undefined
+      : verdict === "no" ? Math.max(...confidences) : Math.min(...confidences),
+    offendingIngredients: dedupeIngredients(verdicts.flatMap((entry) => entry.offendingIngredients)),
+    reason: reasons.length > 0 ? reasons.join("; ") : undefined,
+  };
+}
+
+// Combines the per-shot results of one multi-shot session into a single result.
+export function mergeAnalysisResults(results: AnalysisResult[]): AnalysisResult {
+  if (results.length === 1) return results[0];
+
+  const texts = results.map((result) => result.text).filter((text): text is string => Boolean(text));
+  const text = texts.length > 0 ? mergeExtractedText(texts) : undefined;
+  const categories = Array.from(new Set(results.flatMap((result) => Object.keys(result.classification))));
+
+  return {
+    version: ANALYSIS_RESULT_VERSION,
+    source: results[0]?.source,
+    text,
+    ingredients: dedupeIngredients(text ? parseIngredientList(text) : results.flatMap((result) => result.ingredients)),
+    classification: Object.fromEntries(
+      categories.map((category) => [
+        category,
+        mergeVerdicts(results.flatMap((result) => result.classification[category] ?? [])),
+      ])
+    ),
+  };
+}
@@ -0,0 +1,65 @@
+import { AnalysisResult, parseIngredientList } from "./analysis";
+
+const mockResult = (text: string, classification: AnalysisResult["classification"]): AnalysisResult => ({
+  version: 2,
+  text,
+  ingredients: parseIngredientList(text),
+  classification,
+});
+
+const MOCK_RESULTS: AnalysisResult[] = [
+  mockResult(
+    "INGREDIENTS: Wheat flour, sugar, palm oil, cocoa powder (4%), glucose syrup, salt, raising agents (sodium bicarbonate, ammonium bicarbonate), emulsifier (soy lecithin), flavouring.",
+    {
+      vegan: { verdict: "yes", confidence: 0.91, offendingIngredients: [] },
+      vegetarian: { verdict: "yes", confidence: 0.95, offendingIngredients: [] },
+      halal: {
+        verdict: "uncertain",
+        confidence: 0.55,
+        offendingIngredients: ["flavouring"],
+        reason: "Flavourings may be carried in alcohol",
+      },
+      "gluten free": { verdict: "no", confidence: 0.98, offendingIngredients: ["Wheat flour"] },
+    }
+  ),
+  mockResult(
+    "INGREDIENTS: Milk chocolate (sugar, cocoa butter, whole milk powder, cocoa mass, emulsifier: E471), gelatine, glucose syrup, colour: E120 (carmine).",
+    {
+      vegan: {
+        verdict: "no",
+        confidence: 0.97,
+        offendingIngredients: ["whole milk powder", "gelatine", "E120 (carmine)"],
+      },
+      vegetarian: {
+        verdict: "no",
+        confidence: 0.96,
+        offendingIngredients: ["gelatine", "E120 (carmine)"],
+        reason: "Gelatine and carmine are derived from animals",
+      },
+      halal: {
+        verdict: "no",
+        confidence: 0.72,
+        offendingIngredients: ["gelatine", "E471"],
+        reason: "Source of gelatine and E471 is not declared",
+      },
+      "gluten free": { verdict: "yes", confidence: 0.88, offendingIngredients: [] },
+    }
+  ),
+  mockResult(
+    "INGREDIENTS: Water, tomato paste (28%), sugar, spirit vinegar, salt, onion powder, spice extracts.",
+    {
+      vegan: { verdict: "yes", confidence: 0.96, offendingIngredients: [] },
+      vegetarian: { verdict: "yes", confidence: 0.97, offendingIngredients: [] },
+      halal: { verdict: "yes", confidence: 0.84, offendingIngredients: [] },
+      "gluten free": { verdict: "yes", confidence: 0.9, offendingIngredients: [] },
+    }
+  ),
+];
+
+// Picks a canned result from the upload size so the same image always gives the same answer.
+export async function mockAnalyze(file: Blob, delayMs: number): Promise<AnalysisResult> {
+  if (delayMs > 0) {
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+  }
+  return MOCK_RESULTS[file.size % MOCK_RESULTS.length];
+}
@@ -0,0 +1,21 @@
+import type { ReportPayload } from "./reports";
+
+export interface ReceivedReport extends ReportPayload {
+  receivedAt: number;
+  imageBytes?: number;
+}
+
+// Enough to check a few reports by hand; older ones are dropped.
+const MAX_RECEIVED = 50;
+
+// Development stand-in for the feedback endpoint: keeps the latest reports in memory until the server restarts.
+const received: ReceivedReport[] = [];
+
+export function receiveReport(report: ReportPayload, image?: Blob): ReceivedReport {
+  const entry: ReceivedReport = { ...report, receivedAt: Date.now(), imageBytes: image?.size };
+  received.push(entry);
+  if (received.length > MAX_RECEIVED) received.splice(0, received.length - MAX_RECEIVED);
+  return entry;
+}
+
+export const listReceivedReports = (): ReceivedReport[] => [...received].reverse();
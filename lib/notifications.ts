@@ -0,0 +1,28 @@
+// Asks once, at a moment the user can relate to (their first queued scan).
+export async function requestNotificationPermission() {
+  if (typeof Notification === "undefined" || Notification.permission !== "default") return;
+  try {
+    await Notification.requestPermission();
+  } catch (error) {
+    console.error("Notification permission request failed", error);
+  }
+}
+
+// Shows a system notification when the app is in the background. Returns false if it couldn't.
+export async function showSystemNotification(title: string, body: string): Promise<boolean> {
+  if (typeof Notification === "undefined" || Notification.permission !== "granted" || !document.hidden) {
+    return false;
+  }
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration();
+    if (registration) {
+      await registration.showNotification(title, { body, icon: "/icon.svg", tag: "outbox" });
+    } else {
+      new Notification(title, { body, icon: "/icon.svg", tag: "outbox" });
+    }
+    return true;
+  } catch (error) {
+    console.error("Failed to show notification", error);
+    return false;
+  }
+}
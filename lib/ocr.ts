@@ -0,0 +1,31 @@
+import type { Worker } from "tesseract.js";
+
+const OCR_ASSETS = "/ocr";
+
+let workerPromise: Promise<Worker> | null = null;
+
+// Loads tesseract.js and its bundled WASM core and language data on first use only.
+function getWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    workerPromise = import("tesseract.js")
+      .then(({ createWorker, OEM }) =>
+        createWorker("eng", OEM.LSTM_ONLY, {
+          workerPath: `${OCR_ASSETS}/worker.min.js`,
+          corePath: `${OCR_ASSETS}/core`,
+          langPath: `${OCR_ASSETS}/lang`,
+          gzip: true,
+        })
+      )
+      .catch((error) => {
+        workerPromise = null;
+        throw error;
+      });
+  }
+  return workerPromise;
+}
+
+export async function recognizeText(image: Blob): Promise<string> {
+  const worker = await getWorker();
+  const { data } = await worker.recognize(image);
+  return data.text.trim();
+}
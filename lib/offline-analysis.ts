@@ -0,0 +1,14 @@
+import type { AnalysisResult } from "./analysis";
+import { mergeExtractedText } from "./merge";
+import { recognizeText } from "./ocr";
+import { classifyText } from "./rules";
+
+// Runs the whole analysis in the browser: OCR each shot, merge the text, then the keyword/E-number rule engine.
+export async function analyzeOffline(images: Blob[]): Promise<AnalysisResult> {
+  const texts: string[] = [];
+  // One at a time: the OCR worker is single-threaded anyway.
+  for (const image of images) {
+    texts.push(await recognizeText(image));
+  }
+  return { ...classifyText(mergeExtractedText(texts)), source: "offline" };
+}
@@ -0,0 +1,73 @@
+import { OUTBOX_STORE, withStore } from "./db";
+
+export interface OutboxItem {
+  id: string;
+  createdAt: number;
+  // The shots of one scan, in order.
+  images: Blob[];
+  fileNames: string[];
+  thumbnail?: string;
+  // The label language chosen when the scan was taken, so the retry sends the same OCR hint.
+  language?: string;
+  // The history record holding the offline result shown meanwhile; the server's result replaces it.
+  historyId?: string;
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+
+// Exponential backoff with a little jitter so queued uploads don't all fire at once.
+export function getRetryDelay(attempts: number): number {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** attempts, MAX_RETRY_DELAY_MS);
+  return delay * (0.8 + Math.random() * 0.4);
+}
+
+// Called after the first upload attempt failed, so the item starts out already backed off once.
+export async function enqueueUpload(
+  images: Blob[],
+  fileNames: string[],
+  thumbnail?: string,
+  language?: string,
+  historyId?: string
+): Promise<OutboxItem> {
+  const item: OutboxItem = {
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    images,
+    fileNames,
+    thumbnail,
+    language,
+    historyId,
+    attempts: 1,
+    nextAttemptAt: Date.now() + getRetryDelay(1),
+  };
+  await withStore(OUTBOX_STORE, "readwrite", (store) => store.put(item));
+  return item;
+}
+
+// Items queued before multi-shot capture hold a single `image`.
+type StoredOutboxItem = OutboxItem | (Omit<OutboxItem, "images" | "fileNames"> & { image: Blob; fileName: string });
+
+const normalizeItem = (item: StoredOutboxItem): OutboxItem => {
+  if (!("image" in item)) return item;
+  const { image, fileName, ...rest } = item;
+  return { ...rest, images: [image], fileNames: [fileName] };
+};
+
+export async function listOutbox(): Promise<OutboxItem[]> {
+  const items = await withStore<StoredOutboxItem[]>(OUTBOX_STORE, "readonly", (store) => store.index("createdAt").getAll());
+  return items.map(normalizeItem);
+}
+
+export async function rescheduleUpload(item: OutboxItem): Promise<OutboxItem> {
+  const attempts = item.attempts + 1;
+  const updated = { ...item, attempts, nextAttemptAt: Date.now() + getRetryDelay(attempts) };
+  await withStore(OUTBOX_STORE, "readwrite", (store) => store.put(updated));
+  return updated;
+}
+
+export async function removeFromOutbox(id: string): Promise<void> {
+  await withStore(OUTBOX_STORE, "readwrite", (store) => store.delete(id));
+}
@@ -0,0 +1,114 @@
+import {
+  ExifOrientation,
+  QualitySearch,
+  fitWithin,
+  getOrientationTransform,
+  getOrientedSize,
+  nextQualitySearch,
+  readExifOrientation,
+  stretchContrast,
+  toGrayscale,
+} from "./image-processing";
+
+export interface PreprocessOptions {
+  // Rotate/flip according to the EXIF orientation tag.
+  applyOrientation: boolean;
+  // Re-encode even when no other step changed the image, so EXIF (GPS, device) never leaves the phone.
+  stripMetadata: boolean;
+  // Longest side in pixels; 0 disables downscaling.
+  maxDimension: number;
+  // Grayscale plus contrast stretch, which helps OCR on glossy or tinted packaging.
+  enhanceForOcr: boolean;
+  contrastClip: number;
+  // Largest allowed output size; 0 just encodes at maxQuality.
+  maxBytes: number;
+  minQuality: number;
+  maxQuality: number;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  applyOrientation: true,
+  stripMetadata: true,
+  maxDimension: 2048,
+  enhanceForOcr: true,
+  contrastClip: 0.01,
+  maxBytes: 900 * 1024,
+  minQuality: 0.5,
+  maxQuality: 0.92,
+};
+
+const QUALITY_SEARCH_STEPS = 5;
+
+const canvasToBlob = (canvas: HTMLCanvasElement, quality: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Canvas encoding failed"))),
+      "image/jpeg",
+      quality
+    );
+  });
+
+async function encodeWithinBudget(canvas: HTMLCanvasElement, options: PreprocessOptions): Promise<Blob> {
+  const first = await canvasToBlob(canvas, options.maxQuality);
+  if (!options.maxBytes || first.size <= options.maxBytes) return first;
+
+  let search: QualitySearch = { low: options.minQuality, high: options.maxQuality, best: null };
+  let bestBlob: Blob | null = null;
+  for (let step = 0; step < QUALITY_SEARCH_STEPS; step++) {
+    const quality = (search.low + search.high) / 2;
+    const blob = await canvasToBlob(canvas, quality);
+    search = nextQualitySearch(search, quality, blob.size, options.maxBytes);
+    if (search.best === quality) bestBlob = blob;
+  }
+  // Nothing fit: the smallest we're willing to go is still better than the original.
+  return bestBlob ?? canvasToBlob(canvas, options.minQuality);
+}
+
+const toJpegName = (name: string) => `${name.replace(/\.[^.]+$/, "") || "image"}.jpg`;
+
+// Orientation → downscale → OCR enhancement → JPEG re-encode within the byte budget.
+export async function preprocessImage(
+  source: Blob,
+  fileName: string,
+  overrides: Partial<PreprocessOptions> = {}
+): Promise<File> {
+  const options = { ...DEFAULT_PREPROCESS_OPTIONS, ...overrides };
+  const orientation: ExifOrientation = options.applyOrientation
+    ? readExifOrientation(await source.arrayBuffer())
+    : 1;
+
+  const bitmap = await createImageBitmap(source, { imageOrientation: "none" });
+  const sourceSize = { width: bitmap.width, height: bitmap.height };
+  const drawSize = options.maxDimension ? fitWithin(sourceSize, options.maxDimension) : sourceSize;
+  const outputSize = getOrientedSize(drawSize, orientation);
+
+  const untouched =
+    orientation === 1 &&
+    drawSize.width === sourceSize.width &&
+    !options.enhanceForOcr &&
+    !options.stripMetadata &&
+    (!options.maxBytes || source.size <= options.maxBytes);
+  if (untouched) {
+    bitmap.close();
+    return source instanceof File ? source : new File([source], fileName, { type: source.type });
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = outputSize.width;
+  canvas.height = outputSize.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.setTransform(...getOrientationTransform(orientation, drawSize));
+  ctx.drawImage(bitmap, 0, 0, drawSize.width, drawSize.height);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  bitmap.close();
+
+  if (options.enhanceForOcr) {
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    imageData.data.set(stretchContrast(toGrayscale(imageData.data), options.contrastClip));
+    ctx.putImageData(imageData, 0, 0);
+  }
+
+  const blob = await encodeWithinBudget(canvas, options);
+  return new File([blob], toJpegName(fileName), { type: "image/jpeg" });
+}
@@ -0,0 +1,25 @@
+import type { AnalysisResult } from "../analysis";
+import { createLocalProductProvider } from "./local-provider";
+
+export interface ProductMatch {
+  provider: string;
+  result: AnalysisResult;
+}
+
+// Anything that can turn a normalized barcode into a result: the bundled dataset, a remote API, ...
+export interface ProductProvider {
+  name: string;
+  lookup: (barcode: string) => Promise<ProductMatch | null>;
+}
+
+let provider: ProductProvider = createLocalProductProvider();
+
+export const getProductProvider = () => provider;
+
+export function setProductProvider(next: ProductProvider) {
+  provider = next;
+}
+
+export const lookupProduct = (barcode: string) => provider.lookup(barcode);
+
+export { linkProduct } from "./linked";
@@ -0,0 +1,23 @@
+import type { AnalysisResult } from "../analysis";
+import { LINKED_PRODUCTS_STORE, withStore } from "../db";
+
+// A barcode the user tied to one of their own ingredient-photo results.
+export interface LinkedProduct {
+  barcode: string;
+  linkedAt: number;
+  result: AnalysisResult;
+}
+
+export async function linkProduct(barcode: string, result: AnalysisResult): Promise<void> {
+  const record: LinkedProduct = {
+    barcode,
+    linkedAt: Date.now(),
+    result: { ...result, product: { ...result.product, barcode } },
+  };
+  await withStore(LINKED_PRODUCTS_STORE, "readwrite", (store) => store.put(record));
+}
+
+export async function getLinkedProduct(barcode: string): Promise<LinkedProduct | null> {
+  const record = await withStore<LinkedProduct | undefined>(LINKED_PRODUCTS_STORE, "readonly", (store) => store.get(barcode));
+  return record ?? null;
+}
@@ -0,0 +1,41 @@
+import { parseAnalysisResult } from "../analysis";
+import { getLinkedProduct } from "./linked";
+import type { ProductMatch, ProductProvider } from "./index";
+import dataset from "./dataset.json";
+
+interface DatasetEntry {
+  barcode: string;
+  name: string;
+  brand?: string;
+  text: string;
+  classification: unknown;
+}
+
+// User-linked barcodes win over the bundled dataset, so users can correct it for themselves.
+export function createLocalProductProvider(): ProductProvider {
+  const entries = new Map<string, DatasetEntry>(
+    (dataset.products as DatasetEntry[]).map((entry) => [entry.barcode, entry])
+  );
+
+  return {
+    name: "local",
+    async lookup(barcode: string): Promise<ProductMatch | null> {
+      const linked = await getLinkedProduct(barcode).catch(() => null);
+      if (linked) {
+        return { provider: "linked", result: { ...linked.result, source: "database" } };
+      }
+
+      const entry = entries.get(barcode);
+      if (!entry) return null;
+      const result = parseAnalysisResult({ version: 2, text: entry.text, classification: entry.classification });
+      return {
+        provider: "local",
+        result: {
+          ...result,
+          source: "database",
+          product: { barcode, name: entry.name, brand: entry.brand },
+        },
+      };
+    },
+  };
+}
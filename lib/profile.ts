@@ -0,0 +1,145 @@
+import type { AnalysisResult } from "./analysis";
+import { Translate, allergenLabel, categoryLabel } from "./i18n";
+import { PLANT_LOOKALIKES } from "./rules";
+
+export interface DietaryProfile {
+  // Classification categories the user must satisfy, e.g. "halal" or "vegetarian".
+  diets: string[];
+  // Keys of ALLERGENS the user avoids.
+  allergens: string[];
+  // When set, categories outside `diets` are left out of the results grid.
+  hideOtherCategories: boolean;
+}
+
+export type ProfileVerdict = "safe" | "unsafe" | "check";
+
+// Why the verdict came out as it did; turned into words only where it is shown or read aloud.
+export type ProfileReason =
+  | { code: "missing-diet"; diet: string }
+  | { code: "not-diet"; diet: string }
+  | { code: "uncertain-diet"; diet: string }
+  | { code: "no-ingredients" }
+  | { code: "allergen"; allergen: string; ingredients: string[] };
+
+export interface ProfileEvaluation {
+  verdict: ProfileVerdict;
+  reasons: ProfileReason[];
+}
+
+export const DIET_OPTIONS = ["vegan", "vegetarian", "halal", "kosher", "gluten free", "lactose free"];
+
+// Allergen → ingredient keywords, matched as whole words with an optional plural "s" or "es",
+// so "eggs" hits but "eggplant" doesn't.
+export const ALLERGENS: Record<string, string[]> = {
+  milk: ["milk", "buttermilk", "cream", "butter", "cheese", "whey", "casein", "lactose", "yoghurt", "yogurt"],
+  eggs: ["egg", "albumen", "ovalbumin"],
+  peanuts: ["peanut", "groundnut"],
+  "tree nuts": ["almond", "hazelnut", "walnut", "cashew", "pecan", "pistachio", "macadamia", "brazil nut"],
+  soy: ["soy", "soya", "soybean", "tofu"],
+  gluten: ["wheat", "barley", "rye", "oat", "spelt", "gluten", "semolina", "oatmeal"],
+  fish: ["fish", "anchovy", "anchovies", "tuna", "salmon", "cod"],
+  shellfish: ["shrimp", "prawn", "crab", "lobster", "mussel", "oyster", "crustacean"],
+  sesame: ["sesame", "tahini"],
+  mustard: ["mustard"],
+  celery: ["celery", "celeriac"],
+  sulphites: ["sulphite", "sulfite", "sulphur dioxide", "sulfur dioxide"],
+};
+
+const STORAGE_KEY = "clearbyte.profile";
+
+export const EMPTY_PROFILE: DietaryProfile = { diets: [], allergens: [], hideOtherCategories: false };
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+// Returns null both when no profile was saved yet and when the stored one is unreadable.
+export function loadProfile(): DietaryProfile | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const data = JSON.parse(raw);
+    if (!isStringArray(data?.diets) || !isStringArray(data?.allergens)) return null;
+    return {
+      diets: data.diets,
+      allergens: data.allergens.filter((allergen: string) => allergen in ALLERGENS),
+      hideOtherCategories: data.hideOtherCategories === true,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function saveProfile(profile: DietaryProfile) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export function findAllergenMatches(ingredients: string[], allergen: string): string[] {
+  const pattern = new RegExp(`\\b(${(ALLERGENS[allergen] ?? []).map(escapeRegExp).join("|")})(s|es)?\\b`, "i");
+  // Cocoa butter, coconut milk and the like are plants; only the milk check ignores them, so peanut butter still counts as peanuts.
+  const normalize = (ingredient: string) => (allergen === "milk" ? ingredient.replace(PLANT_LOOKALIKES, "") : ingredient);
+  return ingredients.filter((ingredient) => pattern.test(normalize(ingredient)));
+}
+
+const sameCategory = (a: string, b: string) =>
+  a.toLowerCase().replace(/[-_\s]+/g, " ") === b.toLowerCase().replace(/[-_\s]+/g, " ");
+
+export function isProfileCategory(profile: DietaryProfile, category: string) {
+  return profile.diets.some((diet) => sameCategory(diet, category));
+}
+
+// Folds the result into one answer for this user: any hard failure wins, then anything we couldn't confirm.
+export function evaluateProfile(result: AnalysisResult, profile: DietaryProfile): ProfileEvaluation {
+  const failures: ProfileReason[] = [];
+  const unknowns: ProfileReason[] = [];
+  const categories = Object.entries(result.classification);
+
+  for (const diet of profile.diets) {
+    const match = categories.find(([category]) => sameCategory(category, diet));
+    if (!match) {
+      unknowns.push({ code: "missing-diet", diet });
+    } else if (match[1].verdict === "no") {
+      failures.push({ code: "not-diet", diet });
+    } else if (match[1].verdict === "uncertain") {
+      unknowns.push({ code: "uncertain-diet", diet });
+    }
+  }
+
+  if (profile.allergens.length > 0) {
+    if (result.ingredients.length === 0) {
+      unknowns.push({ code: "no-ingredients" });
+    }
+    for (const allergen of profile.allergens) {
+      const matches = findAllergenMatches(result.ingredients, allergen);
+      if (matches.length > 0) {
+        failures.push({ code: "allergen", allergen, ingredients: matches });
+      }
+    }
+  }
+
+  if (failures.length > 0) return { verdict: "unsafe", reasons: failures };
+  if (unknowns.length > 0) return { verdict: "check", reasons: unknowns };
+  return { verdict: "safe", reasons: [] };
+}
+
+export function describeProfileReason(reason: ProfileReason, t: Translate): string {
+  switch (reason.code) {
+    case "missing-diet":
+      return t("profile.reason.missing", { diet: categoryLabel(t, reason.diet) });
+    case "not-diet":
+      return t("profile.reason.not", { diet: categoryLabel(t, reason.diet) });
+    case "uncertain-diet":
+      return t("profile.reason.uncertain", { diet: categoryLabel(t, reason.diet) });
+    case "no-ingredients":
+      return t("profile.reason.noIngredients");
+    case "allergen":
+      return t("profile.reason.allergen", {
+        allergen: allergenLabel(t, reason.allergen),
+        ingredients: reason.ingredients.join(", "),
+      });
+  }
+}
+
+export const hasPreferences = (profile: DietaryProfile) =>
+  profile.diets.length > 0 || profile.allergens.length > 0;
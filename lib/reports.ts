@@ -0,0 +1,121 @@
+import { AnalysisFormatError, AnalysisResult, Verdict, parseAnalysisResult } from "./analysis";
+import { REPORTS_STORE, withStore } from "./db";
+import { getRetryDelay } from "./outbox";
+
+// What the user says is wrong: one category's verdict, or the text the OCR read.
+export type ReportTarget = { kind: "category"; category: string } | { kind: "text" };
+
+export type ReportCorrection =
+  | { kind: "category"; category: string; verdict: Verdict }
+  | { kind: "text"; text: string };
+
+// The part of a report that leaves the device, as the /api/feedback route receives it.
+export interface ReportPayload {
+  id: string;
+  createdAt: number;
+  correction: ReportCorrection;
+  note?: string;
+  // The result exactly as the user saw it.
+  result: AnalysisResult;
+}
+
+export type ReportStatus = "pending" | "sent" | "failed";
+
+export interface CorrectionReport extends ReportPayload {
+  // Only stored when the user agreed to share it, and dropped again once the report is sent.
+  image?: Blob;
+  imageIncluded: boolean;
+  status: ReportStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  sentAt?: number;
+}
+
+export interface ReportDraft {
+  correction: ReportCorrection;
+  note?: string;
+  result: AnalysisResult;
+  image?: Blob;
+}
+
+const VERDICTS: Verdict[] = ["yes", "no", "uncertain"];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+
+function parseCorrection(data: unknown): ReportCorrection {
+  if (!isRecord(data)) throw new AnalysisFormatError("correction must be an object");
+  if (data.kind === "category" && typeof data.category === "string" && VERDICTS.includes(data.verdict as Verdict)) {
+    return { kind: "category", category: data.category, verdict: data.verdict as Verdict };
+  }
+  if (data.kind === "text" && typeof data.text === "string" && data.text.trim()) {
+    return { kind: "text", text: data.text };
+  }
+  throw new AnalysisFormatError("correction must name a category and verdict, or carry the corrected text");
+}
+
+// Validates a report sent by a client; throws AnalysisFormatError when it isn't one.
+export function parseReportPayload(data: unknown): ReportPayload {
+  if (!isRecord(data)) throw new AnalysisFormatError("Report must be an object");
+  if (typeof data.id !== "string" || typeof data.createdAt !== "number") {
+    throw new AnalysisFormatError("Report needs an id and a createdAt timestamp");
+  }
+  if (data.note !== undefined && typeof data.note !== "string") throw new AnalysisFormatError("note must be a string");
+  parseAnalysisResult(data.result);
+  return {
+    id: data.id,
+    createdAt: data.createdAt,
+    correction: parseCorrection(data.correction),
+    note: data.note,
+    // Forwarded untouched, so the source and product the user saw survive.
+    result: data.result as AnalysisResult,
+  };
+}
+
+export const toReportPayload = ({ id, createdAt, correction, note, result }: CorrectionReport): ReportPayload => ({
+  id,
+  createdAt,
+  correction,
+  note,
+  result,
+});
+
+export async function saveReport({ correction, note, result, image }: ReportDraft): Promise<CorrectionReport> {
+  const report: CorrectionReport = {
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    correction,
+    note: note?.trim() || undefined,
+    result,
+    image,
+    imageIncluded: Boolean(image),
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+  };
+  await withStore(REPORTS_STORE, "readwrite", (store) => store.put(report));
+  return report;
+}
+
+// Newest first, the order the status list shows them in.
+export async function listReports(): Promise<CorrectionReport[]> {
+  const reports = await withStore<CorrectionReport[]>(REPORTS_STORE, "readonly", (store) => store.index("createdAt").getAll());
+  return reports.reverse();
+}
+
+async function updateReport(report: CorrectionReport): Promise<CorrectionReport> {
+  await withStore(REPORTS_STORE, "readwrite", (store) => store.put(report));
+  return report;
+}
+
+export function markReportSent(report: CorrectionReport): Promise<CorrectionReport> {
+  const sent: CorrectionReport = { ...report, status: "sent", sentAt: Date.now() };
+  delete sent.image;
+  return updateReport(sent);
+}
+
+export const markReportFailed = (report: CorrectionReport) => updateReport({ ...report, status: "failed" });
+
+export function rescheduleReport(report: CorrectionReport): Promise<CorrectionReport> {
+  const attempts = report.attempts + 1;
+  return updateReport({ ...report, attempts, nextAttemptAt: Date.now() + getRetryDelay(attempts) });
+}
@@ -0,0 +1,156 @@
+import type { AnalysisResult, Verdict } from "./analysis";
+import { Translate, categoryLabel } from "./i18n";
+
+// Renders a result as a standalone card image, and wraps that image in a one-page PDF.
+
+const CARD_WIDTH = 600;
+const PADDING = 32;
+const ROW_GAP = 16;
+// Rendered at 2× for sharp text on phones; the PDF page uses the logical size.
+const PIXEL_RATIO = 2;
+
+const VERDICT_STYLES: Record<Verdict, { color: string; symbol: string }> = {
+  yes: { color: "#22c55e", symbol: "✓" },
+  no: { color: "#ef4444", symbol: "✕" },
+  uncertain: { color: "#f59e0b", symbol: "?" },
+};
+
+const FONT = "system-ui, -apple-system, 'Segoe UI', sans-serif";
+
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+export function drawResultCard(result: AnalysisResult, title: string, t: Translate): HTMLCanvasElement {
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  const textWidth = CARD_WIDTH - PADDING * 2 - 48;
+  ctx.font = `14px ${FONT}`;
+  const rows = Object.entries(result.classification).map(([category, entry]) => ({
+    category,
+    entry,
+    details: wrapText(
+      ctx,
+      [entry.offendingIngredients.join(", "), entry.reason].filter(Boolean).join(" — "),
+      textWidth
+    ),
+  }));
+  const rowHeights = rows.map((row) => 28 + row.details.length * 20);
+  const headerHeight = 96;
+  const footerHeight = 48;
+  const height = headerHeight + PADDING + rowHeights.reduce((sum, rowHeight) => sum + rowHeight + ROW_GAP, 0) + footerHeight;
+
+  canvas.width = CARD_WIDTH * PIXEL_RATIO;
+  canvas.height = height * PIXEL_RATIO;
+  ctx.scale(PIXEL_RATIO, PIXEL_RATIO);
+
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, CARD_WIDTH, height);
+  ctx.fillStyle = "#111111";
+  ctx.fillRect(0, 0, CARD_WIDTH, headerHeight);
+  ctx.fillStyle = "#9ca3af";
+  ctx.font = `600 14px ${FONT}`;
+  ctx.fillText("CLEARBYTE", PADDING, 36);
+  ctx.fillStyle = "#ffffff";
+  ctx.font = `600 24px ${FONT}`;
+  ctx.fillText(title, PADDING, 70, CARD_WIDTH - PADDING * 2);
+
+  let y = headerHeight + PADDING;
+  rows.forEach(({ category, entry, details }, index) => {
+    const style = VERDICT_STYLES[entry.verdict];
+    ctx.fillStyle = style.color;
+    ctx.beginPath();
+    ctx.arc(PADDING + 14, y + 12, 14, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = "#ffffff";
+    ctx.font = `700 16px ${FONT}`;
+    ctx.textAlign = "center";
+    ctx.fillText(style.symbol, PADDING + 14, y + 18);
+    ctx.textAlign = "left";
+
+    ctx.fillStyle = "#1f2937";
+    ctx.font = `600 18px ${FONT}`;
+    ctx.fillText(categoryLabel(t, category), PADDING + 48, y + 18);
+    ctx.fillStyle = style.color;
+    ctx.font = `500 16px ${FONT}`;
+    const confidence = entry.confidence !== undefined ? ` · ${Math.round(entry.confidence * 100)}%` : "";
+    ctx.textAlign = "right";
+    ctx.fillText(`${t(`share.verdict.${entry.verdict}`)}${confidence}`, CARD_WIDTH - PADDING, y + 18);
+    ctx.textAlign = "left";
+
+    ctx.fillStyle = "#6b7280";
+    ctx.font = `14px ${FONT}`;
+    details.forEach((line, lineIndex) => ctx.fillText(line, PADDING + 48, y + 44 + lineIndex * 20));
+    y += rowHeights[index] + ROW_GAP;
+  });
+
+  ctx.fillStyle = "#9ca3af";
+  ctx.font = `12px ${FONT}`;
+  ctx.fillText(t("share.cardFooter", { date: new Date().toLocaleDateString() }), PADDING, height - 20);
+  return canvas;
+}
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Canvas export failed"))), type, quality)
+  );
+
+// A minimal single-page PDF that shows the canvas as a JPEG, so we don't need a PDF library.
+export async function canvasToPdf(canvas: HTMLCanvasElement): Promise<Blob> {
+  const jpeg = new Uint8Array(await (await canvasToBlob(canvas, "image/jpeg", 0.92)).arrayBuffer());
+  // PDF units are points; keep the card at its logical size.
+  const width = Math.round(canvas.width / PIXEL_RATIO);
+  const height = Math.round(canvas.height / PIXEL_RATIO);
+  const content = `q ${width} 0 0 ${height} 0 0 cm /Card Do Q`;
+
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const push = (part: string | Uint8Array) => {
+    const bytes = typeof part === "string" ? encoder.encode(part) : part;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const object = (body: string) => {
+    offsets.push(length);
+    push(`${offsets.length} 0 obj\n${body}\nendobj\n`);
+  };
+
+  push("%PDF-1.4\n");
+  object("<< /Type /Catalog /Pages 2 0 R >>");
+  object("<< /Type /Pages /Kids [3 0 R] /Count 1 >>");
+  object(
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+      "/Resources << /XObject << /Card 4 0 R >> >> /Contents 5 0 R >>"
+  );
+  offsets.push(length);
+  push(
+    `4 0 obj\n<< /Type /XObject /Subtype /Image /Width ${canvas.width} /Height ${canvas.height} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`
+  );
+  push(jpeg);
+  push("\nendstream\nendobj\n");
+  object(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+
+  const xrefOffset = length;
+  push(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach((offset) => push(`${String(offset).padStart(10, "0")} 00000 n \n`));
+  push(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts, { type: "application/pdf" });
+}
@@ -0,0 +1,48 @@
+import type { AnalysisResult, Verdict } from "./analysis";
+import {
+  DietaryProfile,
+  ProfileVerdict,
+  describeProfileReason,
+  evaluateProfile,
+  hasPreferences,
+  isProfileCategory,
+} from "./profile";
+import { MessageKey, Translate, categoryLabel } from "./i18n";
+
+const VERDICT_WORDS: Record<Verdict, MessageKey> = {
+  yes: "speech.yes",
+  no: "speech.no",
+  uncertain: "analysis.uncertain",
+};
+
+const PROFILE_WORDS: Record<ProfileVerdict, MessageKey> = {
+  safe: "profile.safe",
+  unsafe: "profile.unsafe",
+  check: "profile.check",
+};
+
+// The result as a few plain sentences, for screen-reader announcements and reading aloud.
+// Leads with the profile verdict, then each category with what caused a "no" or "uncertain".
+export function describeResult(result: AnalysisResult, t: Translate, profile?: DietaryProfile | null): string {
+  const personalized = profile && hasPreferences(profile) ? profile : null;
+  const sentences = [t("speech.resultReady")];
+  if (personalized) {
+    const evaluation = evaluateProfile(result, personalized);
+    sentences.push(`${t(PROFILE_WORDS[evaluation.verdict])}.`, ...evaluation.reasons.map((reason) => `${describeProfileReason(reason, t)}.`));
+  }
+
+  const categories = Object.entries(result.classification)
+    .filter(([category]) => !personalized?.hideOtherCategories || isProfileCategory(personalized, category))
+    // The user's own categories first, as on screen.
+    .sort(([a], [b]) =>
+      personalized ? Number(isProfileCategory(personalized, b)) - Number(isProfileCategory(personalized, a)) : 0
+    );
+  if (categories.length === 0) sentences.push(t("speech.noCategories"));
+  for (const [category, { verdict, offendingIngredients }] of categories) {
+    sentences.push(t("speech.category", { category: categoryLabel(t, category), verdict: t(VERDICT_WORDS[verdict]) }));
+    if (verdict !== "yes" && offendingIngredients.length > 0) {
+      sentences.push(t("speech.because", { ingredients: offendingIngredients.join(", ") }));
+    }
+  }
+  return sentences.join(" ");
+}
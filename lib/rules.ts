@@ -0,0 +1,133 @@
+import { ANALYSIS_RESULT_VERSION, AnalysisResult, CategoryVerdict, parseIngredientList } from "./analysis";
+
+// The categories the backend reports, so offline results line up with online ones.
+export const RULE_CATEGORIES = ["vegan", "vegetarian", "halal", "gluten free"] as const;
+
+export type RuleCategory = (typeof RULE_CATEGORIES)[number];
+
+interface IngredientRule {
+  pattern: RegExp;
+  effects: Partial<Record<RuleCategory, "no" | "uncertain">>;
+  reason: string;
+}
+
+export type RuleMatch = Omit<IngredientRule, "pattern">;
+
+const ANIMAL = { vegan: "no", vegetarian: "no" } as const;
+const ANIMAL_UNKNOWN_SLAUGHTER = { vegan: "no", vegetarian: "no", halal: "uncertain" } as const;
+const DAIRY_OR_EGG = { vegan: "no" } as const;
+const MAYBE_ANIMAL = { vegan: "uncertain", vegetarian: "uncertain", halal: "uncertain" } as const;
+
+const KEYWORD_RULES: IngredientRule[] = [
+  { pattern: /\b(pork|bacon|ham|lard|pancetta|prosciutto|salami)\b/i, effects: { ...ANIMAL, halal: "no" }, reason: "Pork product" },
+  { pattern: /\bgelatine?\b/i, effects: ANIMAL_UNKNOWN_SLAUGHTER, reason: "Gelatine is made from animal bones and skin" },
+  { pattern: /\b(beef|chicken|turkey|lamb|mutton|veal|meat|tallow|suet|broth)\b/i, effects: ANIMAL_UNKNOWN_SLAUGHTER, reason: "Meat product" },
+  { pattern: /\b(fish|anchov(y|ies)|tuna|salmon|cod|shrimps?|prawns?|crab|lobster|mussels?|oysters?)\b/i, effects: ANIMAL, reason: "Fish or seafood" },
+  { pattern: /\brennet\b/i, effects: ANIMAL_UNKNOWN_SLAUGHTER, reason: "Rennet is usually taken from calf stomachs" },
+  { pattern: /\b(carmine|cochineal)\b/i, effects: ANIMAL, reason: "Dye made from insects" },
+  { pattern: /\b(shellac|beeswax|lanolin)\b/i, effects: ANIMAL, reason: "Animal-derived coating" },
+  { pattern: /\b(milk|buttermilk|cream|butter|cheese|whey|casein(ate)?|lactose|yogh?urt|ghee)\b/i, effects: DAIRY_OR_EGG, reason: "Dairy" },
+  { pattern: /\b(eggs?|albumen|ovalbumin)\b/i, effects: DAIRY_OR_EGG, reason: "Egg" },
+  { pattern: /\bhoney\b/i, effects: DAIRY_OR_EGG, reason: "Honey is produced by bees" },
+  { pattern: /\b(alcohol|ethanol|wine|beer|rum|brandy|liqueur|whisk(e)?y)\b/i, effects: { halal: "no" }, reason: "Contains alcohol" },
+  { pattern: /\b(flavourings?|flavorings?|natural flavou?rs?)\b/i, effects: { halal: "uncertain" }, reason: "Flavourings may be carried in alcohol or derived from animals" },
+  { pattern: /\b(mono-? and diglycerides|glycerol|glycerine?|stearic acid)\b/i, effects: MAYBE_ANIMAL, reason: "Can be made from animal or plant fat" },
+  { pattern: /\b(wheat|barley|rye|spelt|malt|semolina|couscous|bulgur)\b/i, effects: { "gluten free": "no" }, reason: "Contains gluten" },
+  { pattern: /\boats?\b/i, effects: { "gluten free": "uncertain" }, reason: "Oats are often contaminated with gluten" },
+];
+
+export const E_NUMBER_RULES: Record<string, RuleMatch> = {
+  E120: { effects: ANIMAL, reason: "Carmine, a dye made from insects" },
+  E441: { effects: ANIMAL_UNKNOWN_SLAUGHTER, reason: "Gelatine" },
+  E542: { effects: ANIMAL_UNKNOWN_SLAUGHTER, reason: "Edible bone phosphate" },
+  E901: { effects: DAIRY_OR_EGG, reason: "Beeswax" },
+  E904: { effects: ANIMAL, reason: "Shellac, a resin secreted by insects" },
+  E913: { effects: DAIRY_OR_EGG, reason: "Lanolin, from sheep's wool" },
+  E966: { effects: DAIRY_OR_EGG, reason: "Lactitol, made from milk sugar" },
+  E1105: { effects: DAIRY_OR_EGG, reason: "Lysozyme, from egg white" },
+  E422: { effects: MAYBE_ANIMAL, reason: "Glycerol, from animal or plant fat" },
+  E470: { effects: MAYBE_ANIMAL, reason: "Fatty acid salts, from animal or plant fat" },
+  E471: { effects: MAYBE_ANIMAL, reason: "Mono- and diglycerides, from animal or plant fat" },
+  E472: { effects: MAYBE_ANIMAL, reason: "Esters of mono- and diglycerides, from animal or plant fat" },
+  E481: { effects: MAYBE_ANIMAL, reason: "Sodium stearoyl lactylate, from animal or plant fat" },
+  E482: { effects: MAYBE_ANIMAL, reason: "Calcium stearoyl lactylate, from animal or plant fat" },
+  E570: { effects: MAYBE_ANIMAL, reason: "Stearic acid, from animal or plant fat" },
+  E627: { effects: MAYBE_ANIMAL, reason: "Disodium guanylate, sometimes made from fish" },
+  E631: { effects: MAYBE_ANIMAL, reason: "Disodium inosinate, often made from meat or fish" },
+  E635: { effects: MAYBE_ANIMAL, reason: "Disodium ribonucleotides, sometimes made from meat or fish" },
+  E920: { effects: MAYBE_ANIMAL, reason: "L-cysteine, often made from feathers or hair" },
+};
+
+const E_NUMBER_PATTERN = /\bE\s?-?(\d{3,4})([a-j])?\b/gi;
+
+// Plant ingredients whose names contain a dairy word and would otherwise trip the dairy rule.
+export const PLANT_LOOKALIKES = /\b(cocoa|peanut|shea|nut|coconut|almond|oat|soy|soya|rice|cashew) (butter|milk|cream)\b|\bcream of tartar\b|\bbutternut\b/gi;
+
+const CONFIDENCE: Record<CategoryVerdict["verdict"], number> = { no: 0.8, uncertain: 0.4, yes: 0.6 };
+
+// Canonical codes found in a piece of text: "E471", or "E160a" with the sub-type letter kept in lower case.
+export function findENumbers(text: string): string[] {
+  return Array.from(text.matchAll(E_NUMBER_PATTERN), ([, digits, suffix]) => `E${digits}${suffix?.toLowerCase() ?? ""}`);
+}
+
+// "E160a" → "E160": sub-types share their family's rule unless they have one of their own.
+export const baseENumber = (code: string) => code.replace(/[a-j]$/, "");
+
+// Splits nested ingredient lists down to single ingredients, e.g. "emulsifier: E471" → "E471".
+function flattenIngredients(ingredients: string[]): string[] {
+  return ingredients
+    .flatMap((ingredient) => ingredient.split(/[,;()[\]:]/))
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+function matchRules(ingredient: string): RuleMatch[] {
+  const normalized = ingredient.replace(PLANT_LOOKALIKES, "");
+  const matches: RuleMatch[] = KEYWORD_RULES.filter(({ pattern }) => pattern.test(normalized));
+  for (const code of findENumbers(ingredient)) {
+    const rule = E_NUMBER_RULES[code] ?? E_NUMBER_RULES[baseENumber(code)];
+    if (rule) matches.push(rule);
+  }
+  return matches;
+}
+
+// What the rule engine knows about a single ingredient, for explaining it to the user.
+export function explainIngredient(ingredient: string): { eNumbers: string[]; matches: RuleMatch[] } {
+  return { eNumbers: findENumbers(ingredient), matches: matchRules(ingredient) };
+}
+
+// Rule-based stand-in for the backend classifier. Categories nothing objected to come back "yes".
+export function classifyText(text: string): AnalysisResult {
+  const ingredients = parseIngredientList(text);
+  const classification = Object.fromEntries(
+    RULE_CATEGORIES.map((category) => [category, { verdict: "yes", offendingIngredients: [] as string[], reasons: new Set<string>() }])
+  ) as Record<RuleCategory, { verdict: CategoryVerdict["verdict"]; offendingIngredients: string[]; reasons: Set<string> }>;
+
+  for (const ingredient of flattenIngredients(ingredients)) {
+    for (const { effects, reason } of matchRules(ingredient)) {
+      for (const [category, verdict] of Object.entries(effects) as [RuleCategory, "no" | "uncertain"][]) {
+        const entry = classification[category];
+        if (verdict === "no" || entry.verdict === "yes") entry.verdict = verdict;
+        if (!entry.offendingIngredients.includes(ingredient)) entry.offendingIngredients.push(ingredient);
+        entry.reasons.add(reason);
+      }
+    }
+  }
+
+  return {
+    version: ANALYSIS_RESULT_VERSION,
+    text,
+    ingredients,
+    classification: Object.fromEntries(
+      Object.entries(classification).map(([category, { verdict, offendingIngredients, reasons }]) => [
+        category,
+        {
+          verdict,
+          confidence: CONFIDENCE[verdict],
+          offendingIngredients,
+          reason: reasons.size > 0 ? Array.from(reasons).join("; ") : undefined,
+        },
+      ])
+    ),
+  };
+}
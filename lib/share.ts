@@ -0,0 +1,119 @@
+import { AnalysisResult, AnalysisSource, ProductInfo, parseAnalysisResult } from "./analysis";
+import { Translate, categoryLabel } from "./i18n";
+
+// Shared results live entirely in the URL, so any server can render them without a database.
+// The id is a one-letter format marker followed by base64url data: "z" for deflate-compressed JSON, "j" for plain JSON.
+const COMPRESSED = "z";
+const PLAIN = "j";
+
+// Well past any real label. Length alone doesn't bound the inflated size (deflate can expand a 12 000-character id
+// to megabytes), so decompression also stops at MAX_JSON_BYTES.
+const MAX_ID_LENGTH = 12000;
+const MAX_JSON_BYTES = 64 * 1024;
+
+const SOURCES: AnalysisSource[] = ["server", "offline", "database", "corrected"];
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+// Inflates at most MAX_JSON_BYTES, cancelling the stream as soon as the output passes it; returns null past the limit.
+async function inflateBounded(bytes: Uint8Array): Promise<Uint8Array | null> {
+  const reader = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("deflate-raw")).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    length += chunk.value.length;
+    if (length > MAX_JSON_BYTES) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(chunk.value);
+  }
+  const output = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
+
+async function encodeWithinLimits(result: AnalysisResult): Promise<string | null> {
+  const json = new TextEncoder().encode(JSON.stringify(result));
+  if (json.length > MAX_JSON_BYTES) return null;
+  const id =
+    typeof CompressionStream === "undefined"
+      ? PLAIN + toBase64Url(json)
+      : COMPRESSED + toBase64Url(await transform(json, new CompressionStream("deflate-raw")));
+  return id.length > MAX_ID_LENGTH ? null : id;
+}
+
+// Held to the same limits decodeSharedResult enforces, so every link we hand out opens. A long OCR text is
+// dropped first, since the ingredients and verdicts carry the result; null when even that doesn't fit.
+export async function encodeSharedResult(result: AnalysisResult): Promise<string | null> {
+  const id = await encodeWithinLimits(result);
+  if (id || result.text === undefined) return id;
+  const withoutText = { ...result };
+  delete withoutText.text;
+  return encodeWithinLimits(withoutText);
+}
+
+// Returns null for anything that isn't a valid shared result, so the page can 404.
+export async function decodeSharedResult(id: string): Promise<AnalysisResult | null> {
+  if (id.length > MAX_ID_LENGTH) return null;
+  try {
+    const marker = id.charAt(0);
+    const bytes = fromBase64Url(id.slice(1));
+    let json: Uint8Array | null;
+    if (marker === COMPRESSED) json = await inflateBounded(bytes);
+    else if (marker === PLAIN) json = bytes;
+    else return null;
+    if (!json) return null;
+
+    const data: unknown = JSON.parse(new TextDecoder().decode(json));
+    // We only ever share current results; don't let the legacy upgrade turn arbitrary JSON into an empty one.
+    if (typeof data !== "object" || data === null || !("classification" in data)) return null;
+    const result = parseAnalysisResult(data);
+    // parseAnalysisResult only covers what the backend sends; carry over where the result came from.
+    const { source, product } = data as { source?: unknown; product?: Partial<ProductInfo> };
+    if (SOURCES.includes(source as AnalysisSource)) result.source = source as AnalysisSource;
+    if (typeof product?.barcode === "string") {
+      result.product = {
+        barcode: product.barcode,
+        name: typeof product.name === "string" ? product.name : undefined,
+        brand: typeof product.brand === "string" ? product.brand : undefined,
+      };
+    }
+    return result;
+  } catch {
+    // Corrupt base64, compressed data or JSON, or a result that fails validation.
+    return null;
+  }
+}
+
+export const resultTitle = (result: AnalysisResult, t: Translate) => result.product?.name ?? t("share.untitled");
+
+export const sharedResultPath = (id: string) => `/result/${id}`;
+
+// One-line summary for link previews and share sheets, e.g. "Vegan: No · Halal: Yes".
+export function summarizeResult(result: AnalysisResult, t: Translate): string {
+  const verdicts = Object.entries(result.classification).map(([category, { verdict }]) =>
+    t("share.summaryItem", { category: categoryLabel(t, category), verdict: t(`share.verdict.${verdict}`) })
+  );
+  return verdicts.length > 0 ? verdicts.join(" · ") : t("share.noCategories");
+}
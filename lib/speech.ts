@@ -0,0 +1,26 @@
+// Thin wrapper over the Web Speech API; every call is a no-op where speech synthesis isn't available.
+
+export const isSpeechAvailable = () => typeof window !== "undefined" && "speechSynthesis" in window;
+
+// Speaks `text` in `lang` (a BCP 47 tag such as "fr"), cutting off whatever was being said unless `queue` is set.
+// Returns the utterance, so callers can follow when it ends.
+export function speak(
+  text: string,
+  lang: string,
+  { queue = false }: { queue?: boolean } = {}
+): SpeechSynthesisUtterance | null {
+  if (!isSpeechAvailable() || !text) return null;
+  const synth = window.speechSynthesis;
+  if (!queue) synth.cancel();
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = lang;
+  // Browsers fall back to their default voice, which may not speak the language at all.
+  const voice = synth.getVoices().find((candidate) => candidate.lang.toLowerCase().startsWith(lang.toLowerCase()));
+  if (voice) utterance.voice = voice;
+  synth.speak(utterance);
+  return utterance;
+}
+
+export function stopSpeaking() {
+  if (isSpeechAvailable()) window.speechSynthesis.cancel();
+}
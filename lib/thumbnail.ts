@@ -0,0 +1,25 @@
+const THUMBNAIL_SIZE = 160;
+
+// Renders a square, centre-cropped JPEG data URL of the image for list views.
+export async function createThumbnail(image: Blob, size = THUMBNAIL_SIZE): Promise<string> {
+  const bitmap = await createImageBitmap(image);
+  const side = Math.min(bitmap.width, bitmap.height);
+  const canvas = document.createElement("canvas");
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(
+    bitmap,
+    (bitmap.width - side) / 2,
+    (bitmap.height - side) / 2,
+    side,
+    side,
+    0,
+    0,
+    size,
+    size
+  );
+  bitmap.close();
+  return canvas.toDataURL("image/jpeg", 0.7);
+}
@@ -0,0 +1,90 @@
+// ClearByte service worker: caches the app shell and wakes the page to retry queued uploads.
+const SHELL_CACHE = "clearbyte-shell-v3";
+const SHELL_URLS = ["/", "/ingredients", "/manifest.webmanifest", "/icon.svg", "/ClearByte.png"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE).then((cache) => cache.addAll(SHELL_URLS)).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== SHELL_CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Pages worth keeping for offline use: a fixed set, so the cache can't grow without bound.
+// Shared results (/result/<id>) are one-off permalinks and are never stored.
+const isShellRoute = (url) =>
+  url.pathname === "/" ||
+  url.pathname === "/batch" ||
+  url.pathname === "/ingredients" ||
+  url.pathname.startsWith("/ingredients/");
+
+const isCacheableAsset = (url) =>
+  url.pathname.startsWith("/_next/static/") ||
+  url.pathname.startsWith("/ocr/") ||
+  /\.(png|svg|ico|woff2?)$/.test(url.pathname);
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin || url.pathname.startsWith("/api/")) {
+    return;
+  }
+
+  // Pages: network first so deploys show up, cached shell when offline.
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          if (response.ok && isShellRoute(url)) {
+            const copy = response.clone();
+            caches.open(SHELL_CACHE).then((cache) => cache.put(request, copy));
+          }
+          return response;
+        })
+        .catch(() => caches.match(request).then((cached) => cached || caches.match("/")))
+    );
+    return;
+  }
+
+  // Hashed build output and bundled OCR data never change under the same URL: cache first.
+  if (isCacheableAsset(url)) {
+    event.respondWith(
+      caches.match(request).then((cached) =>
+        cached ||
+        fetch(request).then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(SHELL_CACHE).then((cache) => cache.put(request, copy));
+          }
+          return response;
+        })
+      )
+    );
+  }
+});
+
+// Background Sync fires once connectivity is back; the open page owns the outbox, so just wake it.
+self.addEventListener("sync", (event) => {
+  if (event.tag !== "outbox") return;
+  event.waitUntil(
+    self.clients.matchAll({ type: "window" }).then((clients) => {
+      clients.forEach((client) => client.postMessage({ type: "outbox-sync" }));
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((candidate) => "focus" in candidate);
+      return client ? client.focus() : self.clients.openWindow("/");
+    })
+  );
+});
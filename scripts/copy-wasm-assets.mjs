@@ -0,0 +1,33 @@
+// Copies the WebAssembly engines and their data out of node_modules into public/ so that
+// on-device OCR and barcode decoding never have to reach a CDN.
+import { cpSync, mkdirSync } from "fs";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const modules = join(root, "node_modules");
+const publicDir = join(root, "public");
+
+// tesseract.js: worker, WASM core and English language data.
+const ocr = join(publicDir, "ocr");
+mkdirSync(join(ocr, "core"), { recursive: true });
+mkdirSync(join(ocr, "lang"), { recursive: true });
+
+cpSync(join(modules, "tesseract.js", "dist", "worker.min.js"), join(ocr, "worker.min.js"));
+
+// We only run the LSTM engine, so only the LSTM builds (with and without SIMD) are needed.
+for (const file of ["tesseract-core-lstm.wasm.js", "tesseract-core-simd-lstm.wasm.js"]) {
+  cpSync(join(modules, "tesseract.js-core", file), join(ocr, "core", file));
+}
+
+cpSync(
+  join(modules, "@tesseract.js-data", "eng", "4.0.0_best_int", "eng.traineddata.gz"),
+  join(ocr, "lang", "eng.traineddata.gz")
+);
+
+// zxing-wasm: the barcode reader behind the BarcodeDetector fallback.
+const zxing = join(publicDir, "zxing");
+mkdirSync(zxing, { recursive: true });
+cpSync(join(modules, "zxing-wasm", "dist", "reader", "zxing_reader.wasm"), join(zxing, "zxing_reader.wasm"));
+
+console.log(`Copied WASM assets to ${ocr} and ${zxing}`);